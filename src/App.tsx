@@ -2,12 +2,19 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
-import Index from "./pages/Index";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { v4 as uuidv4 } from "uuid";
+import Editor from "./pages/Editor";
+import Projects from "./pages/Projects";
 import NotFound from "./pages/NotFound";
+import { getLatestAutosaveId } from "./lib/projectStorage";
 
 const queryClient = new QueryClient();
 
+// Visiting the root reopens unsaved work left by a closed or crashed tab,
+// where the editor offers to recover it, or else starts a fresh project
+const NewProject = () => <Navigate to={`/editor/${getLatestAutosaveId() ?? uuidv4()}`} replace />;
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
@@ -15,7 +22,9 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/" element={<NewProject />} />
+          <Route path="/projects" element={<Projects />} />
+          <Route path="/editor/:projectId" element={<Editor />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,7 +1,8 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { v4 as uuidv4 } from "uuid";
 import { AudioLines, Volume2, VolumeX } from "lucide-react";
-import { TimelineElement } from "@/types/timeline";
+import { TimelineElement, isAudibleElement } from "@/types/timeline";
 import { Slider } from "@/components/ui/slider";
 import Panel from "../UI/Panel";
 import IconButton from "../UI/IconButton";
@@ -9,7 +10,8 @@ import IconButton from "../UI/IconButton";
 interface AudioControlProps {
   elements: TimelineElement[];
   selectedElementId: string | null;
-  onVolumeChange: (id: string, volume: number) => void;
+  // `gestureId` is the same for every change during one slider drag
+  onVolumeChange: (id: string, volume: number, gestureId: string) => void;
   onMuteToggle: (id: string, muted: boolean) => void;
 }
 
@@ -21,6 +23,8 @@ const AudioControl = ({
 }: AudioControlProps) => {
   const [volume, setVolume] = useState(100);
   const [isMuted, setIsMuted] = useState(false);
+  // Set while the volume slider is being dragged
+  const volumeGestureRef = useRef<string | null>(null);
 
   // Find the selected element
   const selectedElement = selectedElementId 
@@ -31,12 +35,12 @@ const AudioControl = ({
   useEffect(() => {
     if (selectedElement) {
       // For audio and video elements
-      if (selectedElement.type === 'audio' || selectedElement.type === 'video') {
+      if (isAudibleElement(selectedElement)) {
         const elementVolume = selectedElement.content.volume !== undefined 
           ? selectedElement.content.volume * 100 
           : 100;
         setVolume(elementVolume);
-        setIsMuted(selectedElement.content.muted || false);
+        setIsMuted(selectedElement.content.muted);
       }
     }
   }, [selectedElement]);
@@ -46,7 +50,8 @@ const AudioControl = ({
     if (!selectedElementId) return;
     
     setVolume(value);
-    onVolumeChange(selectedElementId, value / 100);
+    volumeGestureRef.current ??= uuidv4();
+    onVolumeChange(selectedElementId, value / 100, volumeGestureRef.current);
   };
 
   // Handle mute toggle
@@ -58,7 +63,7 @@ const AudioControl = ({
     onMuteToggle(selectedElementId, newMuted);
   };
 
-  if (!selectedElement || (selectedElement.type !== 'audio' && selectedElement.type !== 'video')) {
+  if (!selectedElement || !isAudibleElement(selectedElement)) {
     return (
       <Panel title="Audio Control" className="p-4">
         <p className="text-sm text-editor-muted text-center">
@@ -88,6 +93,9 @@ const AudioControl = ({
           max={100}
           step={1}
           onValueChange={(value) => handleVolumeChange(value[0])}
+          onValueCommit={() => {
+            volumeGestureRef.current = null;
+          }}
           disabled={isMuted}
           className={isMuted ? "opacity-50" : ""}
         />
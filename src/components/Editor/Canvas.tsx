@@ -1,59 +1,87 @@
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
 import { cn } from "@/lib/utils";
 import { Maximize, Minimize, ZoomIn, ZoomOut } from "lucide-react";
 import IconButton from "../UI/IconButton";
-import { CanvasElement } from "@/types/timeline";
+import { TimelineElement, Track } from "@/types/timeline";
+import { getVisibleElements, renderFrame } from "@/lib/compositor";
+import useFrameSources from "@/hooks/useFrameSources";
+import { flattenCompounds } from "@/lib/compound";
 
 interface CanvasProps {
   width: number;
   height: number;
-  elements: CanvasElement[];
+  elements: TimelineElement[];
+  tracks?: Track[];
   selectedElementId: string | null;
+  // Every selected element; just `selectedElementId` when left out
+  selectedElementIds?: string[];
   onElementSelect: (id: string | null) => void;
-  onElementMove: (id: string, x: number, y: number) => void;
-  onElementResize: (id: string, width: number, height: number) => void;
+  // Shift/Ctrl-click and marquee selections
+  onSelectionChange?: (ids: string[]) => void;
+  // Called while elements are dragged, with all of their new positions
+  // `gestureId` is the same for every call during one drag
+  onElementsMove: (positions: { id: string; x: number; y: number }[], gestureId: string) => void;
+  onElementResize: (id: string, width: number, height: number, gestureId: string) => void;
   currentTime: number;
+  isPlaying?: boolean;
 }
 
 const Canvas = ({
   width,
   height,
   elements,
+  tracks = [],
   selectedElementId,
+  selectedElementIds = selectedElementId ? [selectedElementId] : [],
   onElementSelect,
-  onElementMove,
+  onSelectionChange,
+  onElementsMove,
   onElementResize,
   currentTime,
+  isPlaying = false,
 }: CanvasProps) => {
   const canvasRef = useRef<HTMLDivElement>(null);
-  const videoRefs = useRef<Record<string, HTMLVideoElement | null>>({});
+  const stageRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLCanvasElement>(null);
   const [zoom, setZoom] = useState(1);
-  const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState(false);
-  const [resizeDirection, setResizeDirection] = useState<string | null>(null);
-  const [dragStartPos, setDragStartPos] = useState({ x: 0, y: 0 });
   const [isFullscreen, setIsFullscreen] = useState(false);
+  // Marquee corners in canvas coordinates
+  // Set when a drag moved, so the click that ends it doesn't change the selection
+  const dragMovedRef = useRef(false);
+  const [marquee, setMarquee] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
 
-  // Filter elements for current time
-  const visibleElements = elements.filter(
-    (el) => currentTime >= el.start && currentTime <= el.end
-  );
+  // Compound clips are drawn from the elements inside them but selected and moved as one
+  const renderedElements = useMemo(() => flattenCompounds(elements), [elements]);
+  const { version, getSource, syncVideos } = useFrameSources(renderedElements);
+
+  // Elements drawn at the current time, used for the interaction overlay
+  const visibleElements = getVisibleElements(elements, currentTime, tracks);
 
-  // Sync video elements with current time
+  // Keep video sources at the current time
   useEffect(() => {
-    visibleElements.forEach((element) => {
-      if (element.type === "video" && videoRefs.current[element.id]) {
-        const video = videoRefs.current[element.id];
-        if (video) {
-          // Only update time if it differs significantly to avoid playback issues
-          if (Math.abs(video.currentTime - (currentTime - element.start)) > 0.2) {
-            video.currentTime = currentTime - element.start;
-          }
-        }
-      }
-    });
-  }, [currentTime, visibleElements]);
+    syncVideos(currentTime, isPlaying);
+  }, [syncVideos, currentTime, isPlaying]);
+
+  // Draw the frame through the shared compositor
+  useEffect(() => {
+    const canvas = frameRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const scale = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * scale) || canvas.height !== Math.round(height * scale)) {
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+    }
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    renderFrame(ctx, { elements: renderedElements, tracks, width, height }, currentTime, getSource);
+  }, [renderedElements, tracks, width, height, currentTime, getSource, version]);
+
+  // Shift or Ctrl/Cmd adds to and removes from the selection
+  const isSelectionModifier = (e: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }) =>
+    e.shiftKey || e.ctrlKey || e.metaKey;
 
   // Handle element selection
   const handleElementClick = (
@@ -61,125 +89,136 @@ const Canvas = ({
     elementId: string
   ) => {
     e.stopPropagation();
-    onElementSelect(elementId);
+    if (dragMovedRef.current) {
+      dragMovedRef.current = false;
+      return;
+    }
+    if (isSelectionModifier(e) && onSelectionChange) {
+      onSelectionChange(
+        selectedElementIds.includes(elementId)
+          ? selectedElementIds.filter((id) => id !== elementId)
+          : [...selectedElementIds, elementId]
+      );
+    } else {
+      onElementSelect(elementId);
+    }
   };
 
-  // Handle element dragging
+  // Drag an element, along with the rest of the selection if it's selected
   const handleElementDragStart = (
     e: React.MouseEvent<HTMLDivElement>,
     elementId: string
   ) => {
     e.stopPropagation();
-    if (e.button !== 0) return; // Only left mouse button
+    if (e.button !== 0 || isSelectionModifier(e)) return; // Only plain left button drags
+
+    const isSelected = selectedElementIds.includes(elementId);
+    if (!isSelected) onElementSelect(elementId);
+    const ids = isSelected ? selectedElementIds : [elementId];
+    const origins = elements.filter((el) => ids.includes(el.id)).map(({ id, x, y }) => ({ id, x, y }));
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const gestureId = uuidv4();
+    dragMovedRef.current = false;
+
+    const onMove = (event: MouseEvent) => {
+      dragMovedRef.current = true;
+      const dx = (event.clientX - startX) / zoom;
+      const dy = (event.clientY - startY) / zoom;
+      // Limit to canvas boundaries
+      onElementsMove(origins.map((origin) => ({
+        id: origin.id,
+        x: Math.max(0, Math.min(width - 10, origin.x + dx)),
+        y: Math.max(0, Math.min(height - 10, origin.y + dy)),
+      })), gestureId);
+    };
+    const onUp = () => {
+      document.removeEventListener("mousemove", onMove);
+      document.removeEventListener("mouseup", onUp);
+    };
 
-    const element = elements.find((el) => el.id === elementId);
-    if (!element) return;
+    document.addEventListener("mousemove", onMove);
+    document.addEventListener("mouseup", onUp);
+  };
 
-    setIsDragging(true);
-    setDragStartPos({
-      x: e.clientX - element.x,
-      y: e.clientY - element.y,
-    });
-    onElementSelect(elementId);
+  // Dragging on empty canvas selects the elements the marquee touches. A click
+  // clears the selection; with a modifier the marquee adds to it.
+  const handleMarqueeStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || !stageRef.current) return;
+    const additive = isSelectionModifier(e);
+    const toCanvas = (event: { clientX: number; clientY: number }) => {
+      const rect = stageRef.current.getBoundingClientRect();
+      return { x: (event.clientX - rect.left) / zoom, y: (event.clientY - rect.top) / zoom };
+    };
+    const start = toCanvas(e);
+    let box = { x0: start.x, y0: start.y, x1: start.x, y1: start.y };
+
+    const onMove = (event: MouseEvent) => {
+      const point = toCanvas(event);
+      box = { ...box, x1: point.x, y1: point.y };
+      setMarquee(box);
+    };
+    const onUp = () => {
+      document.removeEventListener("mousemove", onMove);
+      document.removeEventListener("mouseup", onUp);
+      setMarquee(null);
+
+      const left = Math.min(box.x0, box.x1);
+      const right = Math.max(box.x0, box.x1);
+      const top = Math.min(box.y0, box.y1);
+      const bottom = Math.max(box.y0, box.y1);
+      if (right - left < 3 && bottom - top < 3) {
+        if (!additive) onElementSelect(null);
+        return;
+      }
 
-    // Add mousemove and mouseup listeners to document
-    document.addEventListener("mousemove", handleMouseMove);
-    document.addEventListener("mouseup", handleMouseUp);
+      const touched = visibleElements
+        .filter((el) => el.x < right && el.x + el.width > left && el.y < bottom && el.y + el.height > top)
+        .map((el) => el.id);
+      if (!onSelectionChange) return;
+      onSelectionChange(additive ? [...new Set([...selectedElementIds, ...touched])] : touched);
+    };
+
+    document.addEventListener("mousemove", onMove);
+    document.addEventListener("mouseup", onUp);
   };
 
-  // Handle element resizing
+  // Resize an element from one corner; videos, images and compound clips
+  // keep their aspect ratio
   const handleResizeStart = (
     e: React.MouseEvent<HTMLDivElement>,
     elementId: string,
     direction: string
   ) => {
     e.stopPropagation();
-    if (e.button !== 0) return; // Only left mouse button
-
-    setIsResizing(true);
-    setResizeDirection(direction);
-    onElementSelect(elementId);
+    if (e.button !== 0 || !canvasRef.current) return; // Only left mouse button
 
-    // Add mousemove and mouseup listeners
-    document.addEventListener("mousemove", handleResizeMove);
-    document.addEventListener("mouseup", handleResizeEnd);
-  };
-
-  const handleResizeMove = (e: MouseEvent) => {
-    if (!isResizing || !selectedElementId || !canvasRef.current || !resizeDirection) return;
-
-    const rect = canvasRef.current.getBoundingClientRect();
-    const element = elements.find(el => el.id === selectedElementId);
+    const element = elements.find(el => el.id === elementId);
     if (!element) return;
+    onElementSelect(elementId);
+    // One undo step per drag
+    const gestureId = uuidv4();
+
+    const onMove = (event: MouseEvent) => {
+      const rect = canvasRef.current.getBoundingClientRect();
+      const canvasX = (event.clientX - rect.left) / zoom;
+      const canvasY = (event.clientY - rect.top) / zoom;
+
+      const newWidth = Math.max(50, direction.endsWith("e") ? canvasX - element.x : element.x + element.width - canvasX);
+      let newHeight = Math.max(50, direction.startsWith("s") ? canvasY - element.y : element.y + element.height - canvasY);
+      if (element.type === "video" || element.type === "image" || element.type === "compound") {
+        newHeight = newWidth / (element.width / element.height);
+      }
 
-    const canvasX = (e.clientX - rect.left) / zoom;
-    const canvasY = (e.clientY - rect.top) / zoom;
-
-    let newWidth = element.width;
-    let newHeight = element.height;
-
-    switch (resizeDirection) {
-      case 'se':
-        newWidth = Math.max(50, canvasX - element.x);
-        newHeight = Math.max(50, canvasY - element.y);
-        break;
-      case 'sw':
-        newWidth = Math.max(50, element.x + element.width - canvasX);
-        newHeight = Math.max(50, canvasY - element.y);
-        break;
-      case 'ne':
-        newWidth = Math.max(50, canvasX - element.x);
-        newHeight = Math.max(50, element.y + element.height - canvasY);
-        break;
-      case 'nw':
-        newWidth = Math.max(50, element.x + element.width - canvasX);
-        newHeight = Math.max(50, element.y + element.height - canvasY);
-        break;
-      default:
-        break;
-    }
-
-    // Keep aspect ratio if it's a video or image
-    if ((element.type === 'video' || element.type === 'image') && (newWidth !== element.width)) {
-      const aspectRatio = element.width / element.height;
-      newHeight = newWidth / aspectRatio;
-    }
-
-    onElementResize(selectedElementId, newWidth, newHeight);
-  };
-
-  const handleResizeEnd = () => {
-    setIsResizing(false);
-    setResizeDirection(null);
-    document.removeEventListener("mousemove", handleResizeMove);
-    document.removeEventListener("mouseup", handleResizeEnd);
-  };
-
-  const handleMouseMove = (e: MouseEvent) => {
-    if (!isDragging || !selectedElementId || !canvasRef.current) return;
-
-    const rect = canvasRef.current.getBoundingClientRect();
-
-    // Calculate position relative to the canvas with zoom factor
-    const newX = (e.clientX - dragStartPos.x - rect.left) / zoom;
-    const newY = (e.clientY - dragStartPos.y - rect.top) / zoom;
-
-    // Limit to canvas boundaries
-    const boundedX = Math.max(0, Math.min(width - 10, newX));
-    const boundedY = Math.max(0, Math.min(height - 10, newY));
-
-    onElementMove(selectedElementId, boundedX, boundedY);
-  };
-
-  const handleMouseUp = () => {
-    setIsDragging(false);
-    document.removeEventListener("mousemove", handleMouseMove);
-    document.removeEventListener("mouseup", handleMouseUp);
-  };
+      onElementResize(elementId, newWidth, newHeight, gestureId);
+    };
+    const onUp = () => {
+      document.removeEventListener("mousemove", onMove);
+      document.removeEventListener("mouseup", onUp);
+    };
 
-  // Handle canvas click to deselect
-  const handleCanvasClick = () => {
-    onElementSelect(null);
+    document.addEventListener("mousemove", onMove);
+    document.addEventListener("mouseup", onUp);
   };
 
   // Handle zoom controls
@@ -196,16 +235,6 @@ const Canvas = ({
     setIsFullscreen(!isFullscreen);
   };
 
-  // Cleanup event listeners on unmount
-  useEffect(() => {
-    return () => {
-      document.removeEventListener("mousemove", handleMouseMove);
-      document.removeEventListener("mouseup", handleMouseUp);
-      document.removeEventListener("mousemove", handleResizeMove);
-      document.removeEventListener("mouseup", handleResizeEnd);
-    };
-  }, []);
-
   return (
     <div
       className={cn(
@@ -243,9 +272,10 @@ const Canvas = ({
         <div
           ref={canvasRef}
           className="relative bg-black w-full h-full flex items-center justify-center"
-          onClick={handleCanvasClick}
+          onMouseDown={handleMarqueeStart}
         >
           <div
+            ref={stageRef}
             className="relative"
             style={{
               width: width * zoom,
@@ -254,12 +284,17 @@ const Canvas = ({
               transformOrigin: "center",
             }}
           >
+            <canvas
+              ref={frameRef}
+              className="absolute top-0 left-0 pointer-events-none"
+              style={{ width, height }}
+            />
             {visibleElements.map((element) => (
               <div
                 key={element.id}
                 className={cn(
                   "absolute canvas-element cursor-move",
-                  selectedElementId === element.id &&
+                  selectedElementIds.includes(element.id) &&
                     "ring-2 ring-editor-accent ring-offset-1"
                 )}
                 style={{
@@ -268,48 +303,12 @@ const Canvas = ({
                   width: element.width,
                   height: element.height,
                   transform: `rotate(${element.rotation}deg)`,
-                  zIndex: selectedElementId === element.id ? 10 : 1,
+                  zIndex: selectedElementIds.includes(element.id) ? 10 : 1,
                 }}
                 onClick={(e) => handleElementClick(e, element.id)}
                 onMouseDown={(e) => handleElementDragStart(e, element.id)}
               >
-                {element.type === "text" && (
-                  <div
-                    className="w-full h-full flex items-center justify-center pointer-events-none"
-                    style={{
-                      fontSize: element.content.fontSize + "px",
-                      fontWeight: element.content.fontWeight,
-                      fontStyle: element.content.fontStyle,
-                      color: element.content.color,
-                      textAlign: element.content.alignment as any,
-                    }}
-                  >
-                    {element.content.content}
-                  </div>
-                )}
-
-                {element.type === "image" && (
-                  <img
-                    src={element.content.src}
-                    alt="Canvas image"
-                    className="w-full h-full object-contain pointer-events-none"
-                  />
-                )}
-
-                {element.type === "video" && (
-                  <video
-                    ref={(el) => (videoRefs.current[element.id] = el)}
-                    src={element.content.src}
-                    className="w-full h-full object-contain pointer-events-none"
-                    muted
-                    autoPlay={false}
-                    loop={false}
-                    playsInline
-                    preload="auto"
-                  />
-                )}
-
-                {selectedElementId === element.id && (
+                {selectedElementIds.length === 1 && selectedElementId === element.id && (
                   <>
                     <div 
                       className="absolute top-0 left-0 w-3 h-3 bg-white border border-editor-accent rounded-full cursor-nw-resize -translate-x-1/2 -translate-y-1/2"
@@ -331,6 +330,18 @@ const Canvas = ({
                 )}
               </div>
             ))}
+            {marquee && (
+              <div
+                className="absolute border border-dashed border-editor-accent bg-editor-accent/10 pointer-events-none"
+                style={{
+                  left: Math.min(marquee.x0, marquee.x1),
+                  top: Math.min(marquee.y0, marquee.y1),
+                  width: Math.abs(marquee.x1 - marquee.x0),
+                  height: Math.abs(marquee.y1 - marquee.y0),
+                  zIndex: 20,
+                }}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Crop, RotateCcw, Check, X } from "lucide-react";
-import { TimelineElement } from "@/types/timeline";
+import { CropRect, TimelineElement, isCroppableElement } from "@/types/timeline";
 import Panel from "../UI/Panel";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/UI/slider";
@@ -10,7 +10,7 @@ import { AspectRatio } from "@/components/UI/aspect-ratio";
 interface CropToolProps {
   elements: TimelineElement[];
   selectedElementId: string | null;
-  onCropApply: (id: string, crop: { x: number; y: number; width: number; height: number }) => void;
+  onCropApply: (id: string, crop: CropRect) => void;
 }
 
 interface AspectRatioOption {
@@ -25,7 +25,7 @@ const CropTool = ({ elements, selectedElementId, onCropApply }: CropToolProps) =
   const [cropY, setCropY] = useState(0);
   const [cropWidth, setCropWidth] = useState(100);
   const [cropHeight, setCropHeight] = useState(100);
-  const [previewCrop, setPreviewCrop] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+  const [previewCrop, setPreviewCrop] = useState<CropRect | null>(null);
   const [selectedAspectRatio, setSelectedAspectRatio] = useState<string | null>("freeform");
 
   // Aspect ratio options
@@ -49,7 +49,7 @@ const CropTool = ({ elements, selectedElementId, onCropApply }: CropToolProps) =
   // Reset crop values when selected element changes
   useEffect(() => {
     if (selectedElement) {
-      if (selectedElement.type === 'video' || selectedElement.type === 'image') {
+      if (isCroppableElement(selectedElement)) {
         // Initialize with existing crop values or defaults
         const crop = selectedElement.content.crop || { x: 0, y: 0, width: 100, height: 100 };
         setCropX(crop.x);
@@ -96,7 +96,7 @@ const CropTool = ({ elements, selectedElementId, onCropApply }: CropToolProps) =
   const handleApplyCrop = () => {
     if (!selectedElementId || !selectedElement) return;
 
-    if (selectedElement.type !== 'video' && selectedElement.type !== 'image') {
+    if (!isCroppableElement(selectedElement)) {
       toast.error("Cropping is only available for video and image elements");
       return;
     }
@@ -157,7 +157,7 @@ const CropTool = ({ elements, selectedElementId, onCropApply }: CropToolProps) =
     updatePreviewCrop(cropX, cropY, newWidth, newHeight);
   };
 
-  if (!selectedElement || (selectedElement.type !== 'video' && selectedElement.type !== 'image')) {
+  if (!selectedElement || !isCroppableElement(selectedElement)) {
     return (
       <Panel title="Crop Tool" className="p-4">
         <p className="text-sm text-editor-muted text-center">
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { ArrowDownToLine, ImageIcon, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/UI/dialog";
+import { Button } from "@/components/UI/button";
+import { Progress } from "@/components/UI/progress";
+import { ExportFormat, isExportSupported } from "@/lib/exporter";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canvasWidth: number;
+  canvasHeight: number;
+  isExporting: boolean;
+  progress: number;
+  onExport: (options: { format: ExportFormat; scale: number; fps: number }) => void;
+  onExportFrame: (scale: number) => void;
+  onCancel: () => void;
+}
+
+const formatOptions: { id: ExportFormat; label: string }[] = [
+  { id: "mp4", label: "MP4" },
+  { id: "webm", label: "WebM" },
+];
+
+const scaleOptions = [1, 2, 4];
+const fpsOptions = [24, 30, 60];
+
+const ExportDialog = ({
+  open,
+  onOpenChange,
+  canvasWidth,
+  canvasHeight,
+  isExporting,
+  progress,
+  onExport,
+  onExportFrame,
+  onCancel,
+}: ExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>("mp4");
+  const [scale, setScale] = useState(2);
+  const [fps, setFps] = useState(30);
+  const isSupported = isExportSupported();
+
+  const optionClass = (active: boolean) =>
+    `text-xs px-3 py-1.5 rounded ${active
+      ? "bg-editor-accent text-white"
+      : "bg-gray-100 hover:bg-gray-200"}`;
+
+  // Keep the dialog open while an export is running
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && isExporting) return;
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Video</DialogTitle>
+          <DialogDescription>
+            Renders every frame of the timeline and mixes all audio into a single file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isSupported ? (
+          <p className="text-sm text-red-500">
+            This browser does not support video encoding. Try a recent version of Chrome or Edge.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <div className="text-sm font-medium mb-2">Format</div>
+              <div className="flex gap-2">
+                {formatOptions.map((option) => (
+                  <button
+                    key={option.id}
+                    className={optionClass(format === option.id)}
+                    onClick={() => setFormat(option.id)}
+                    disabled={isExporting}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm font-medium mb-2">Resolution</div>
+              <div className="flex gap-2">
+                {scaleOptions.map((option) => (
+                  <button
+                    key={option}
+                    className={optionClass(scale === option)}
+                    onClick={() => setScale(option)}
+                    disabled={isExporting}
+                  >
+                    {Math.round((canvasWidth * option) / 2) * 2}×{Math.round((canvasHeight * option) / 2) * 2}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm font-medium mb-2">Frame rate</div>
+              <div className="flex gap-2">
+                {fpsOptions.map((option) => (
+                  <button
+                    key={option}
+                    className={optionClass(fps === option)}
+                    onClick={() => setFps(option)}
+                    disabled={isExporting}
+                  >
+                    {option} fps
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {isExporting && (
+              <div className="space-y-1">
+                <Progress value={progress * 100} />
+                <div className="text-xs text-right text-editor-muted">
+                  {Math.round(progress * 100)}%
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {isExporting ? (
+            <Button variant="outline" onClick={onCancel} className="flex items-center gap-2">
+              <X size={16} />
+              Cancel Export
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => onExportFrame(scale)}
+                className="flex items-center gap-2"
+              >
+                <ImageIcon size={16} />
+                Save Current Frame
+              </Button>
+              <Button
+                onClick={() => onExport({ format, scale, fps })}
+                disabled={!isSupported}
+                className="flex items-center gap-2"
+              >
+                <ArrowDownToLine size={16} />
+                Export
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
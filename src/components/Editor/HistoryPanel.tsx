@@ -0,0 +1,104 @@
+import { Fragment } from "react";
+import { GitBranch, History } from "lucide-react";
+import Panel from "../UI/Panel";
+import { cn } from "@/lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/UI/select";
+import { HistoryBranch, HistoryEntry } from "@/lib/timelineHistory";
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  // Number of entries currently applied
+  index: number;
+  branch?: HistoryBranch;
+  limit: number;
+  onJump: (index: number) => void;
+  onLimitChange: (limit: number) => void;
+}
+
+const LIMIT_OPTIONS = [25, 50, 100, 200];
+
+const HistoryPanel = ({ entries, index, branch, limit, onJump, onLimitChange }: HistoryPanelProps) => {
+  const limitOptions = LIMIT_OPTIONS.includes(limit) ? LIMIT_OPTIONS : [...LIMIT_OPTIONS, limit].sort((a, b) => a - b);
+
+  // Step 0 is the state before the oldest entry
+  const renderStep = (step: number, label: string) => (
+    <button
+      key={step}
+      className={cn(
+        "w-full text-left px-2 py-1.5 rounded-md text-sm truncate transition-colors",
+        step === index
+          ? "bg-editor-accent/10 text-editor-accent font-medium"
+          : step > index
+            ? "text-editor-muted italic hover:bg-editor-background"
+            : "hover:bg-editor-background"
+      )}
+      onClick={() => onJump(step)}
+      title={step > index ? `Redo to "${label}"` : label}
+    >
+      {label}
+    </button>
+  );
+
+  // Where a new edit dropped undone steps, below the step it branched off
+  const renderBranch = (step: number) =>
+    branch && branch.index === step && (
+      <div
+        className="flex items-start gap-1.5 ml-2 pl-2 py-1 border-l-2 border-dashed border-editor-border text-xs text-editor-muted"
+        title={branch.labels.join("\n")}
+      >
+        <GitBranch size={12} className="mt-0.5 shrink-0" />
+        <span>
+          Branched here, discarding {branch.labels.length} undone{" "}
+          {branch.labels.length === 1 ? "step" : "steps"}
+        </span>
+      </div>
+    );
+
+  return (
+    <Panel title="History" className="flex-1 m-4">
+      <div className="space-y-4">
+        {entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-32 text-editor-muted">
+            <History className="mb-2 opacity-50" />
+            <p className="text-sm">No edits yet</p>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-0.5 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+            {renderStep(0, "Initial state")}
+            {renderBranch(0)}
+            {entries.map((entry, i) => (
+              <Fragment key={entry.id}>
+                {renderStep(i + 1, entry.label)}
+                {renderBranch(i + 1)}
+              </Fragment>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-editor-muted">Undo steps kept</span>
+          <Select value={String(limit)} onValueChange={(value) => onLimitChange(Number(value))}>
+            <SelectTrigger className="w-24 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {limitOptions.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </Panel>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { Bookmark, ChevronLeft, ChevronRight, Copy, FileText, Plus, Trash2 } from "lucide-react";
+import Panel from "../UI/Panel";
+import IconButton from "../UI/IconButton";
+import { Button } from "@/components/UI/button";
+import { Input } from "@/components/UI/input";
+import { Textarea } from "@/components/UI/textarea";
+import { cn } from "@/lib/utils";
+import { ChapterFormat, MARKER_COLORS, sortMarkers } from "@/lib/markers";
+import { Marker } from "@/types/timeline";
+
+interface MarkersPanelProps {
+  markers: Marker[];
+  selectedMarkerId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  // Jump to the next (1) or previous (-1) marker
+  onJump: (direction: 1 | -1) => void;
+  onUpdate: (id: string, changes: Partial<Omit<Marker, "id">>) => void;
+  onRemove: (id: string) => void;
+  onCopyChapters: () => void;
+  onExportChapters: (format: ChapterFormat) => void;
+}
+
+const formatTime = (timeInSeconds: number) => {
+  const minutes = Math.floor(timeInSeconds / 60);
+  const seconds = Math.floor(timeInSeconds % 60);
+  const hundredths = Math.floor((timeInSeconds % 1) * 100);
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${hundredths.toString().padStart(2, "0")}`;
+};
+
+// One marker; the name and notes are saved when their field loses focus
+const MarkerRow = ({
+  marker,
+  isSelected,
+  onSelect,
+  onUpdate,
+  onRemove,
+}: {
+  marker: Marker;
+  isSelected: boolean;
+  onSelect: () => void;
+  onUpdate: (changes: Partial<Omit<Marker, "id">>) => void;
+  onRemove: () => void;
+}) => {
+  const [name, setName] = useState(marker.name);
+  const [notes, setNotes] = useState(marker.notes);
+
+  // Follow undo and redo
+  useEffect(() => setName(marker.name), [marker.name]);
+  useEffect(() => setNotes(marker.notes), [marker.notes]);
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== marker.name) onUpdate({ name: trimmed });
+    else setName(marker.name);
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-md p-2 space-y-2 transition-colors",
+        isSelected ? "bg-editor-accent/10" : "hover:bg-editor-background"
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: marker.color }} />
+        <button
+          type="button"
+          className="font-mono text-xs text-editor-muted hover:text-editor-accent"
+          title="Jump to marker"
+          onClick={onSelect}
+        >
+          {formatTime(marker.time)}
+        </button>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onFocus={onSelect}
+          onBlur={saveName}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          className="h-7 px-2 text-xs"
+        />
+        <button
+          type="button"
+          className="text-red-500 hover:text-red-600"
+          title="Delete marker"
+          aria-label="Delete marker"
+          onClick={onRemove}
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {isSelected && (
+        <>
+          <div className="flex gap-1.5">
+            {MARKER_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                className={cn(
+                  "w-5 h-5 rounded-full border-2",
+                  marker.color === color ? "border-foreground" : "border-transparent"
+                )}
+                style={{ backgroundColor: color }}
+                aria-label={`Color ${color}`}
+                onClick={() => onUpdate({ color })}
+              />
+            ))}
+          </div>
+          <Textarea
+            value={notes}
+            placeholder="Notes"
+            onChange={(e) => setNotes(e.target.value)}
+            onBlur={() => {
+              if (notes !== marker.notes) onUpdate({ notes });
+            }}
+            className="min-h-[60px] text-xs"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+const MarkersPanel = ({
+  markers,
+  selectedMarkerId,
+  onSelect,
+  onAdd,
+  onJump,
+  onUpdate,
+  onRemove,
+  onCopyChapters,
+  onExportChapters,
+}: MarkersPanelProps) => (
+  <Panel title="Markers" className="flex-1 m-4">
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button size="sm" className="flex-1 flex items-center gap-2" onClick={onAdd}>
+          <Plus size={16} />
+          Add at Playhead
+        </Button>
+        <IconButton icon={ChevronLeft} onClick={() => onJump(-1)} tooltip="Previous marker ([)" />
+        <IconButton icon={ChevronRight} onClick={() => onJump(1)} tooltip="Next marker (])" />
+      </div>
+
+      {markers.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-32 text-editor-muted">
+          <Bookmark className="mb-2 opacity-50" />
+          <p className="text-sm">No markers yet</p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-1 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+          {sortMarkers(markers).map((marker) => (
+            <MarkerRow
+              key={marker.id}
+              marker={marker}
+              isSelected={marker.id === selectedMarkerId}
+              onSelect={() => onSelect(marker.id)}
+              onUpdate={(changes) => onUpdate(marker.id, changes)}
+              onRemove={() => onRemove(marker.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="text-xs text-editor-muted">Chapters</div>
+        <Button variant="outline" size="sm" className="w-full flex items-center gap-2" onClick={onCopyChapters}>
+          <Copy size={14} />
+          Copy YouTube Chapters
+        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 flex items-center gap-2"
+            onClick={() => onExportChapters("youtube")}
+          >
+            <FileText size={14} />
+            YouTube .txt
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 flex items-center gap-2"
+            onClick={() => onExportChapters("webvtt")}
+          >
+            <FileText size={14} />
+            WebVTT .vtt
+          </Button>
+        </div>
+      </div>
+    </div>
+  </Panel>
+);
+
+export default MarkersPanel;
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   Play,
   Pause,
@@ -9,7 +9,13 @@ import {
 } from "lucide-react";
 import IconButton from "../UI/IconButton";
 import { Slider } from "@/components/UI/slider";
-import { TimelineElement } from "@/types/timeline";
+import { AudioElement, TimelineElement, Track } from "@/types/timeline";
+import { getVisibleElements, renderFrame } from "@/lib/compositor";
+import { clampMediaRate, getPlaybackRateAt, getSourceTime, isReversed } from "@/lib/timeMapping";
+import { isTrackAudible } from "@/lib/tracks";
+import { flattenCompounds } from "@/lib/compound";
+import useFrameSources from "@/hooks/useFrameSources";
+import useReversedSound from "@/hooks/useReversedSound";
 
 interface PreviewProps {
   isPlaying: boolean;
@@ -20,6 +26,9 @@ interface PreviewProps {
   onTimeUpdate: (time: number) => void;
   onRestart: () => void;
   elements: TimelineElement[];
+  tracks?: Track[];
+  width: number;
+  height: number;
 }
 
 const Preview = ({
@@ -30,18 +39,23 @@ const Preview = ({
   onPause,
   onTimeUpdate,
   onRestart,
-  elements,
+  elements: timelineElements,
+  tracks = [],
+  width,
+  height,
 }: PreviewProps) => {
   const [volume, setVolume] = useState(100);
   const [isMuted, setIsMuted] = useState(false);
   const [showVolumeControl, setShowVolumeControl] = useState(false);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioRefs = useRef<Record<string, HTMLAudioElement>>({});
-  const activeAudioElementsRef = useRef<TimelineElement[]>([]);
+  const activeAudioElementsRef = useRef<AudioElement[]>([]);
   const lastTimeRef = useRef(currentTime);
-  const [videoEnded, setVideoEnded] = useState(false);
-  const [isBuffering, setIsBuffering] = useState(false);
-  const timeUpdateBlocker = useRef(false);
+  // Compound clips play the elements inside them
+  const elements = useMemo(() => flattenCompounds(timelineElements), [timelineElements]);
+  const { version, getSource, getVideo, syncVideos } = useFrameSources(elements);
+  // Clips playing backwards are heard through Web Audio instead
+  useReversedSound(elements, tracks, { currentTime, isPlaying, volume: isMuted ? 0 : volume / 100 });
 
   const formatTime = (timeInSeconds: number): string => {
     const minutes = Math.floor(timeInSeconds / 60);
@@ -49,12 +63,15 @@ const Preview = ({
     return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
   };
 
-  // Find active audio elements at current time
+  // Find active audio elements at current time; muted tracks don't play
   useEffect(() => {
+    // Audio elements can't play backwards; useReversedSound plays reversed clips
     const activeAudioElements = elements.filter(
-      el => el.type === "audio" &&
+      (el): el is AudioElement => el.type === "audio" &&
         currentTime >= el.start &&
-        currentTime <= el.end
+        currentTime <= el.end &&
+        !isReversed(el) &&
+        isTrackAudible(tracks, el.track)
     );
 
     console.log(`Active audio elements at time ${currentTime}:`, activeAudioElements.length);
@@ -81,7 +98,7 @@ const Preview = ({
         audioElement.volume = audio.content.volume !== undefined ? audio.content.volume : volume / 100;
 
         // Calculate time within the audio clip
-        const audioLocalTime = Math.max(0, currentTime - audio.start);
+        const audioLocalTime = Math.max(0, getSourceTime(audio, currentTime));
         audioElement.currentTime = audioLocalTime;
 
         audioRefs.current[audio.id] = audioElement;
@@ -103,6 +120,10 @@ const Preview = ({
           }
         }
       }
+
+      // Play at the clip's speed, following changes and its speed ramp
+      audioRefs.current[audio.id].playbackRate = clampMediaRate(getPlaybackRateAt(audio, currentTime));
+      audioRefs.current[audio.id].preservesPitch = audio.content.preservePitch;
     });
 
     // Cleanup audio elements that aren't active anymore
@@ -114,7 +135,7 @@ const Preview = ({
         delete audioRefs.current[id];
       }
     });
-  }, [elements, currentTime, isPlaying, volume]);
+  }, [elements, tracks, currentTime, isPlaying, volume]);
 
   // Synchronize audio playback with current time
   useEffect(() => {
@@ -123,7 +144,7 @@ const Preview = ({
         const audioElement = audioRefs.current[audio.id];
         if (audioElement) {
           // Calculate time within the audio clip
-          const audioLocalTime = Math.max(0, currentTime - audio.start);
+          const audioLocalTime = Math.max(0, getSourceTime(audio, currentTime));
 
           // Only update if difference is significant
           if (Math.abs(audioElement.currentTime - audioLocalTime) > 0.2) {
@@ -211,244 +232,65 @@ const Preview = ({
     };
   }, []);
 
-  // Handle video element changes with optimized event handling
+  // Keep the hidden video sources in step with the timeline
   useEffect(() => {
-    const videoElement = videoRef.current;
-    if (!videoElement) return;
-
-    const handleTimeUpdate = () => {
-      if (timeUpdateBlocker.current) return;
-      onTimeUpdate(videoElement.currentTime);
-    };
-
-    const handleVideoEnd = () => {
-      setVideoEnded(true);
-      onPause();
-    };
-
-    const handleWaiting = () => {
-      setIsBuffering(true);
-    };
-
-    const handlePlaying = () => {
-      setIsBuffering(false);
-    };
-
-    videoElement.addEventListener('timeupdate', handleTimeUpdate);
-    videoElement.addEventListener('ended', handleVideoEnd);
-    videoElement.addEventListener('waiting', handleWaiting);
-    videoElement.addEventListener('playing', handlePlaying);
+    syncVideos(currentTime, isPlaying);
+  }, [syncVideos, currentTime, isPlaying]);
 
-    return () => {
-      videoElement.removeEventListener('timeupdate', handleTimeUpdate);
-      videoElement.removeEventListener('ended', handleVideoEnd);
-      videoElement.removeEventListener('waiting', handleWaiting);
-      videoElement.removeEventListener('playing', handlePlaying);
-    };
-  }, [onTimeUpdate, onPause]);
-
-  // Improved play/pause handling
+  // Apply volume and mute state to the sound of video clips
   useEffect(() => {
-    const videoElement = videoRef.current;
-    if (!videoElement) return;
-
-    if (isPlaying) {
-      // Reset if video had ended
-      if (videoEnded) {
-        setVideoEnded(false);
-        if (currentTime >= duration - 0.1) {
-          timeUpdateBlocker.current = true;
-          onTimeUpdate(0);
-          videoElement.currentTime = 0;
-          timeUpdateBlocker.current = false;
-        }
-      }
-
-      // Ensure video isn't muted unless explicitly set
-      videoElement.muted = isMuted;
-
-      // Use play() and catch any errors
-      const playPromise = videoElement.play();
-      if (playPromise !== undefined) {
-        playPromise.catch((error) => {
-          console.error("Error playing video:", error);
-          onPause();
-        });
-      }
-    } else {
-      videoElement.pause();
-    }
-  }, [isPlaying, onPause, videoEnded, currentTime, duration, onTimeUpdate, isMuted]);
+    elements.forEach((element) => {
+      if (element.type !== "video") return;
+      const video = getVideo(element.id);
+      if (!video) return;
+
+      video.volume = (element.content.volume !== undefined ? element.content.volume : 1.0) * (volume / 100);
+      // Reversed videos are stepped through by seeking, and useReversedSound
+      // plays their sound
+      video.muted = isMuted || (element.content.muted || false) || isReversed(element) || !isTrackAudible(tracks, element.track);
+    });
+  }, [elements, tracks, getVideo, volume, isMuted, version]);
 
-  // Optimized time synchronization
+  // Draw the current frame through the shared compositor
   useEffect(() => {
-    const videoElement = videoRef.current;
-    if (!videoElement) return;
-
-    // Prevent excessive updates by only updating when the difference is significant
-    if (Math.abs(videoElement.currentTime - currentTime) > 0.2) {
-      timeUpdateBlocker.current = true;
-      videoElement.currentTime = currentTime;
-
-      // Reset blocker after a small delay to prevent event loop
-      setTimeout(() => {
-        timeUpdateBlocker.current = false;
-      }, 50);
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const scale = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * scale) || canvas.height !== Math.round(height * scale)) {
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
     }
-  }, [currentTime]);
-
-  // Apply volume change to video
-  useEffect(() => {
-    const videoElement = videoRef.current;
-    if (!videoElement) return;
-
-    videoElement.volume = volume / 100;
-    videoElement.muted = isMuted;
-  }, [volume, isMuted]);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    renderFrame(ctx, { elements, tracks, width, height }, currentTime, getSource);
+  }, [elements, tracks, width, height, currentTime, getSource, version]);
 
-  // Find the video element to display
-  const videoElement = elements.find(
-    (el) =>
-      el.type === "video" &&
-      currentTime >= el.start &&
-      currentTime <= el.end
-  );
+  const hasVisibleElements = getVisibleElements(elements, currentTime, tracks).length > 0;
 
   // Handle restart
   const handleRestart = () => {
-    setVideoEnded(false);
     onRestart();
   };
 
   // Handle play with restart if needed
   const handlePlay = () => {
-    if (videoEnded || currentTime >= duration - 0.1) {
+    if (currentTime >= duration - 0.1) {
       handleRestart();
     }
     onPlay();
   };
 
-  // Apply crop styles if crop is defined
-  const getVideoStyle = () => {
-    if (videoElement && videoElement.content.crop) {
-      const crop = videoElement.content.crop;
-      return {
-        display: isBuffering ? 'none' : 'block',
-        objectFit: 'cover' as const,
-        objectPosition: `${crop.x}% ${crop.y}%`,
-        width: `${crop.width}%`,
-        height: `${crop.height}%`,
-        margin: 'auto',
-        transition: 'all 0.1s ease-out'
-      };
-    }
-
-    return {
-      display: isBuffering ? 'none' : 'block',
-      objectFit: 'contain' as const,
-      transition: 'all 0.1s ease-out'
-    };
-  };
-
-  // Force video element to update when crop changes
-  useEffect(() => {
-    if (videoRef.current && videoElement?.content.crop) {
-      videoRef.current.style.objectPosition = `${videoElement.content.crop.x}% ${videoElement.content.crop.y}%`;
-      videoRef.current.style.width = `${videoElement.content.crop.width}%`;
-      videoRef.current.style.height = `${videoElement.content.crop.height}%`;
-    }
-  }, [videoElement?.content.crop]);
-
-  // Debug helper
-  const logActiveAudio = () => {
-    console.log("Active audio elements:", activeAudioElementsRef.current.map(a => a.id));
-    console.log("Audio elements in refs:", Object.keys(audioRefs.current));
-  };
-
   return (
     <div className="panel w-full h-full flex flex-col">
-      <div className="relative flex-1 bg-black overflow-hidden rounded">
-        {videoElement ? (
-          <>
-            <video
-              ref={videoRef}
-              src={videoElement.content.src}
-              className="w-full h-full"
-              playsInline
-              preload="auto"
-              style={getVideoStyle()}
-              onError={(e) => console.error("Video error:", e)}
-            />
+      <div className="relative flex-1 bg-black overflow-hidden rounded flex items-center justify-center">
+        <canvas ref={canvasRef} className="w-full h-full object-contain" />
 
-            {isBuffering && (
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="loader w-10 h-10 border-4 border-t-4 border-gray-200 border-t-blue-500 rounded-full animate-spin"></div>
-              </div>
-            )}
-          </>
-        ) : (
-          <div className="w-full h-full flex items-center justify-center text-white/70 text-sm">
+        {!hasVisibleElements && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/70 text-sm pointer-events-none">
             No media at current position
           </div>
         )}
-
-        {/* Render preview elements */}
-        <div className="absolute inset-0 pointer-events-none">
-          {elements
-            .filter(
-              (el) =>
-                el.type !== "video" &&
-                el.type !== "audio" &&
-                currentTime >= el.start &&
-                currentTime <= el.end
-            )
-            .map((element) => (
-              <div
-                key={element.id}
-                className="absolute"
-                style={{
-                  left: element.x,
-                  top: element.y,
-                  width: element.width,
-                  height: element.height,
-                  transform: `rotate(${element.rotation}deg)`,
-                }}
-              >
-                {element.type === "text" && (
-                  <div
-                    className="w-full h-full flex items-center justify-center"
-                    style={{
-                      fontSize: element.content.fontSize + "px",
-                      fontWeight: element.content.fontWeight,
-                      fontStyle: element.content.fontStyle,
-                      color: element.content.color,
-                      textAlign: element.content.alignment as any,
-                    }}
-                  >
-                    {element.content.content}
-                  </div>
-                )}
-
-                {element.type === "image" && (
-                  <img
-                    src={element.content.src}
-                    alt="Preview image"
-                    className="w-full h-full"
-                    loading="eager"
-                    style={element.content.crop ? {
-                      objectFit: 'cover',
-                      objectPosition: `${element.content.crop.x}% ${element.content.crop.y}%`,
-                      width: `${element.content.crop.width}%`,
-                      height: `${element.content.crop.height}%`,
-                      margin: 'auto'
-                    } : {
-                      objectFit: 'contain'
-                    }}
-                  />
-                )}
-              </div>
-            ))}
-        </div>
       </div>
 
       <div className="p-3 flex flex-col gap-2">
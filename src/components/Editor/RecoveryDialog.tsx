@@ -0,0 +1,46 @@
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/UI/alert-dialog";
+
+interface RecoveryDialogProps {
+  open: boolean;
+  projectName: string;
+  // When the autosave snapshot was written
+  autosavedAt: string;
+  hasSavedVersion: boolean;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const RecoveryDialog = ({ open, projectName, autosavedAt, hasSavedVersion, onRestore, onDiscard }: RecoveryDialogProps) => {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Restore unsaved changes?</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{projectName}" has unsaved work from{" "}
+            {formatDistanceToNow(new Date(autosavedAt), { addSuffix: true })}.{" "}
+            {hasSavedVersion
+              ? "Restore it, or discard it and open the last saved version?"
+              : "It was never saved. Restore it, or discard it and start over?"}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard}>Discard</AlertDialogCancel>
+          <AlertDialogAction onClick={onRestore}>Restore</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RecoveryDialog;
@@ -1,30 +1,63 @@
 
 import { useState, useEffect } from "react";
 import { Slider } from "@/components/ui/slider";
-import { Clock, Save } from "lucide-react";
+import { Clock, Save, Snowflake } from "lucide-react";
 import Panel from "../UI/Panel";
 import { Button } from "@/components/ui/button";
-import { TimelineElement } from "@/types/timeline";
+import { Switch } from "@/components/UI/switch";
+import { Label } from "@/components/UI/label";
+import { Input } from "@/components/UI/input";
+import SpeedRampEditor from "@/components/Editor/SpeedRampEditor";
+import { SpeedKeyframe, TimelineElement, isAudibleElement, isRangedElement } from "@/types/timeline";
+import { setElementSpeed } from "@/lib/timelineEdits";
+import { getSpeedRamp } from "@/lib/timeMapping";
 import { toast } from "sonner";
 
 interface SpeedControlProps {
   selectedElementId: string | null;
-  onSpeedChange: (id: string, speed: number) => void;
+  // Negative speeds play backwards; speedRamp is left out for clips that
+  // can't have one and is null for none
+  onSpeedChange: (id: string, speed: number, speedRamp?: SpeedKeyframe[] | null) => void;
+  onPreservePitchChange: (id: string, preservePitch: boolean) => void;
+  // Length, in seconds, of stills inserted by onFreezeFrame
+  freezeFrameLength: number;
+  onFreezeFrameLengthChange: (length: number) => void;
+  onFreezeFrame: () => void;
   elements: TimelineElement[];
 }
 
-const SpeedControl = ({ selectedElementId, onSpeedChange, elements }: SpeedControlProps) => {
+const SpeedControl = ({
+  selectedElementId,
+  onSpeedChange,
+  onPreservePitchChange,
+  freezeFrameLength,
+  onFreezeFrameLengthChange,
+  onFreezeFrame,
+  elements,
+}: SpeedControlProps) => {
   const selectedElement = elements.find(el => el.id === selectedElementId);
   const [speed, setSpeed] = useState<number>(1.0);
+  const [reversed, setReversed] = useState(false);
+  const [speedRamp, setSpeedRamp] = useState<SpeedKeyframe[] | null>(null);
   
   // Update local speed when selected element changes
   useEffect(() => {
     if (selectedElement) {
-      setSpeed(selectedElement.speed || 1.0);
+      setSpeed(Math.abs(selectedElement.speed));
+      setReversed(selectedElement.speed < 0);
+      setSpeedRamp(getSpeedRamp(selectedElement));
     } else {
       setSpeed(1.0);
+      setReversed(false);
+      setSpeedRamp(null);
     }
   }, [selectedElement]);
+
+  const canRamp = selectedElement !== undefined && isAudibleElement(selectedElement);
+  const signedSpeed = reversed ? -speed : speed;
+  // Length the clip will have on the timeline with these settings
+  const retimed = selectedElement ? setElementSpeed(selectedElement, signedSpeed, canRamp ? speedRamp : undefined) : null;
+  const resultLength = retimed ? retimed.end - retimed.start : 0;
   
   const handleSpeedChange = (value: number[]) => {
     setSpeed(value[0]);
@@ -32,8 +65,8 @@ const SpeedControl = ({ selectedElementId, onSpeedChange, elements }: SpeedContr
   
   const applySpeed = () => {
     if (selectedElementId) {
-      onSpeedChange(selectedElementId, speed);
-      toast.success(`Speed set to ${speed.toFixed(2)}x`);
+      onSpeedChange(selectedElementId, signedSpeed, canRamp ? speedRamp : undefined);
+      toast.success(`Speed set to ${speed.toFixed(2)}x${speedRamp && canRamp ? " with a ramp" : ""}${reversed ? ", reversed" : ""}`);
     }
   };
   
@@ -42,10 +75,10 @@ const SpeedControl = ({ selectedElementId, onSpeedChange, elements }: SpeedContr
   return (
     <Panel title="Playback Speed" className="w-full">
       <div className="space-y-4">
-        {!selectedElementId || !selectedElement || (selectedElement.type !== "video" && selectedElement.type !== "audio") ? (
+        {!selectedElementId || !selectedElement || !isRangedElement(selectedElement) ? (
           <div className="text-center text-editor-muted py-8">
             <Clock className="mx-auto mb-2 opacity-50" />
-            <p className="text-sm">Select a video or audio clip to adjust speed</p>
+            <p className="text-sm">Select a video, audio or compound clip to adjust speed</p>
           </div>
         ) : (
           <>
@@ -82,6 +115,34 @@ const SpeedControl = ({ selectedElementId, onSpeedChange, elements }: SpeedContr
                 ))}
               </div>
             </div>
+
+            {canRamp && (
+              <div className="space-y-2">
+                <span className="text-sm font-medium">Speed ramp</span>
+                <SpeedRampEditor ramp={speedRamp} onChange={setSpeedRamp} />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="speed-reverse" className="text-sm font-medium">Play backwards</Label>
+              <Switch id="speed-reverse" checked={reversed} onCheckedChange={setReversed} />
+            </div>
+
+            {isAudibleElement(selectedElement) && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="speed-pitch" className="text-sm font-medium">Preserve pitch</Label>
+                <Switch
+                  id="speed-pitch"
+                  checked={selectedElement.content.preservePitch}
+                  onCheckedChange={(checked) => onPreservePitchChange(selectedElement.id, checked)}
+                />
+              </div>
+            )}
+            
+            <div className="flex justify-between text-xs text-editor-muted">
+              <span>Length on timeline</span>
+              <span>{resultLength.toFixed(2)}s</span>
+            </div>
             
             <Button 
               className="w-full mt-4 flex items-center justify-center gap-2"
@@ -90,6 +151,30 @@ const SpeedControl = ({ selectedElementId, onSpeedChange, elements }: SpeedContr
               <Save size={16} />
               Apply Speed Change
             </Button>
+
+            {selectedElement.type === "video" && (
+              <div className="space-y-2 pt-4 border-t border-editor-border">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="freeze-length" className="text-sm font-medium">Freeze frame length (s)</Label>
+                  <Input
+                    id="freeze-length"
+                    type="number"
+                    min={0.1}
+                    step={0.5}
+                    value={freezeFrameLength}
+                    onChange={(e) => {
+                      const length = parseFloat(e.target.value);
+                      if (length > 0) onFreezeFrameLengthChange(length);
+                    }}
+                    className="w-20 h-8 text-sm"
+                  />
+                </div>
+                <Button variant="outline" className="w-full flex items-center justify-center gap-2" onClick={onFreezeFrame}>
+                  <Snowflake size={16} />
+                  Freeze Frame at Playhead
+                </Button>
+              </div>
+            )}
           </>
         )}
       </div>
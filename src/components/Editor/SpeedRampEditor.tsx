@@ -0,0 +1,141 @@
+import { useRef } from "react";
+import { SpeedKeyframe } from "@/types/timeline";
+import { MAX_RAMP_SPEED, MIN_RAMP_SPEED, SPEED_RAMP_PRESETS } from "@/lib/speedRamp";
+
+interface SpeedRampEditorProps {
+  // null plays at a constant speed
+  ramp: SpeedKeyframe[] | null;
+  onChange: (ramp: SpeedKeyframe[] | null) => void;
+}
+
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 100;
+const FLAT_RAMP: SpeedKeyframe[] = [{ position: 0, speed: 1 }, { position: 1, speed: 1 }];
+
+// Speeds are drawn on a log scale so 0.5x and 2x are as far from 1x
+const LOG_MIN = Math.log(MIN_RAMP_SPEED);
+const LOG_MAX = Math.log(MAX_RAMP_SPEED);
+const toY = (speed: number) => GRAPH_HEIGHT * (1 - (Math.log(speed) - LOG_MIN) / (LOG_MAX - LOG_MIN));
+const toSpeed = (y: number) => {
+  const fraction = 1 - Math.min(GRAPH_HEIGHT, Math.max(0, y)) / GRAPH_HEIGHT;
+  return Math.round(Math.exp(LOG_MIN + fraction * (LOG_MAX - LOG_MIN)) * 100) / 100;
+};
+
+const isSameRamp = (a: SpeedKeyframe[] | null, b: SpeedKeyframe[] | null) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Curve of speed over the clip. Drag points to change them, double-click
+// the graph to add one and a point to remove it; the end points stay at the
+// clip's edges.
+const SpeedRampEditor = ({ ramp, onChange }: SpeedRampEditorProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const keyframes = ramp ?? FLAT_RAMP;
+
+  const toGraph = (event: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current.getBoundingClientRect();
+    return {
+      position: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: ((event.clientY - rect.top) / rect.height) * GRAPH_HEIGHT,
+    };
+  };
+
+  const handlePointDragStart = (e: React.MouseEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const isEnd = index === 0 || index === keyframes.length - 1;
+
+    const onMove = (event: MouseEvent) => {
+      const { position, y } = toGraph(event);
+      const next = keyframes.map((keyframe, i) => {
+        if (i !== index) return keyframe;
+        // Points stay between their neighbors
+        const clamped = isEnd
+          ? keyframe.position
+          : Math.min(keyframes[i + 1].position, Math.max(keyframes[i - 1].position, position));
+        return { position: clamped, speed: toSpeed(y) };
+      });
+      onChange(next);
+    };
+    const onUp = () => {
+      document.removeEventListener("mousemove", onMove);
+      document.removeEventListener("mouseup", onUp);
+    };
+
+    document.addEventListener("mousemove", onMove);
+    document.addEventListener("mouseup", onUp);
+  };
+
+  const handleAddPoint = (e: React.MouseEvent) => {
+    const { position, y } = toGraph(e);
+    if (position <= 0 || position >= 1) return;
+    const next = [...keyframes, { position, speed: toSpeed(y) }].sort((a, b) => a.position - b.position);
+    onChange(next);
+  };
+
+  const handleRemovePoint = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    if (index === 0 || index === keyframes.length - 1) return;
+    onChange(keyframes.filter((_, i) => i !== index));
+  };
+
+  const points = keyframes.map((keyframe) => `${keyframe.position * GRAPH_WIDTH},${toY(keyframe.speed)}`).join(" ");
+
+  return (
+    <div className="space-y-2">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+        className="w-full h-auto bg-gray-50 border border-gray-200 rounded cursor-crosshair overflow-visible"
+        onDoubleClick={handleAddPoint}
+      >
+        <line
+          x1={0}
+          x2={GRAPH_WIDTH}
+          y1={toY(1)}
+          y2={toY(1)}
+          className="stroke-gray-300"
+          strokeDasharray="4 3"
+          vectorEffect="non-scaling-stroke"
+        />
+        <polyline
+          points={points}
+          fill="none"
+          className="stroke-editor-accent"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {keyframes.map((keyframe, index) => (
+          <circle
+            key={index}
+            cx={keyframe.position * GRAPH_WIDTH}
+            cy={toY(keyframe.speed)}
+            r={4}
+            className="fill-white stroke-editor-accent cursor-grab"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            onMouseDown={(e) => handlePointDragStart(e, index)}
+            onDoubleClick={(e) => handleRemovePoint(e, index)}
+          >
+            <title>{keyframe.speed.toFixed(2)}x</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-2">
+        {[{ id: "none", label: "None", ramp: null }, ...SPEED_RAMP_PRESETS].map((preset) => (
+          <button
+            key={preset.id}
+            className={`text-xs px-2 py-1 rounded ${isSameRamp(ramp, preset.ramp)
+              ? 'bg-editor-accent text-white'
+              : 'bg-gray-100 hover:bg-gray-200'}`}
+            onClick={() => onChange(preset.ramp)}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpeedRampEditor;
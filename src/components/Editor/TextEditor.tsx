@@ -6,23 +6,15 @@ import IconButton from "../UI/IconButton";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
+import { TextContent } from "@/types/timeline";
 
 interface TextEditorProps {
-  onAddText: (textProps: TextProperties) => void;
-}
-
-interface TextProperties {
-  content: string;
-  fontSize: number;
-  fontWeight: string;
-  fontStyle: string;
-  color: string;
-  alignment: string;
+  onAddText: (textProps: TextContent) => void;
 }
 
 const TextEditor = ({ onAddText }: TextEditorProps) => {
-  const [textProps, setTextProps] = useState<TextProperties>({
-    content: "New Text",
+  const [textProps, setTextProps] = useState<TextContent>({
+    text: "New Text",
     fontSize: 24,
     fontWeight: "normal",
     fontStyle: "normal",
@@ -30,7 +22,7 @@ const TextEditor = ({ onAddText }: TextEditorProps) => {
     alignment: "center",
   });
 
-  const handleChange = (key: keyof TextProperties, value: string | number) => {
+  const handleChange = <K extends keyof TextContent>(key: K, value: TextContent[K]) => {
     setTextProps((prev) => ({ ...prev, [key]: value }));
   };
 
@@ -42,8 +34,8 @@ const TextEditor = ({ onAddText }: TextEditorProps) => {
     <Panel className="w-full" title="Text Editor">
       <div className="flex flex-col gap-4">
         <textarea
-          value={textProps.content}
-          onChange={(e) => handleChange("content", e.target.value)}
+          value={textProps.text}
+          onChange={(e) => handleChange("text", e.target.value)}
           className="w-full p-3 min-h-[100px] border border-editor-border rounded-md focus:outline-none focus:ring-2 focus:ring-editor-accent/20 focus:border-editor-accent/20 transition-all duration-200"
           placeholder="Enter your text here..."
         />
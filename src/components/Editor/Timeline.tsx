@@ -10,12 +10,44 @@ import {
   Plus,
   Minus,
   Scissors,
+  MoveHorizontal,
+  ChevronsRight,
+  SeparatorVertical,
+  Film,
+  ArrowLeftRight,
+  Magnet,
+  BookmarkPlus,
+  FoldHorizontal,
+  Repeat,
+  ChevronRight,
+  Group,
+  Snowflake,
+  Undo2,
+  LucideIcon,
 } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
 import IconButton from "../UI/IconButton";
 import { useIsMobile } from "@/hooks/use-mobile";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/UI/select";
+import { ClipMove, CollisionMode, ElementType, Marker, Track, TrackKind, TrackToggle, TrimEdit, TrimMode, TrimSide } from "@/types/timeline";
+import { RangeEdit, TimelineGap, TRIM_MODE_LABELS, findGaps } from "@/lib/timelineEdits";
+import { isCompatibleTrack } from "@/lib/tracks";
+import { findSnap, getGridStep, SNAP_THRESHOLD_PX, SnapTarget } from "@/lib/snapping";
+import TrackHeader from "./TrackHeader";
 
 interface TimelineProps {
   clips: TimelineClip[];
+  tracks: Track[];
+  markers?: Marker[];
+  selectedMarkerId?: string | null;
+  onMarkerSelect?: (id: string) => void;
+  onAddMarker?: () => void;
   currentTime: number;
   duration: number;
   isPlaying: boolean;
@@ -23,14 +55,56 @@ interface TimelineProps {
   onPlayPause: () => void;
   onClipSelect: (clipId: string) => void;
   selectedClipId: string | null;
+  // Every selected clip; just `selectedClipId` when left out
+  selectedClipIds?: string[];
+  // Shift/Ctrl-click and marquee selections
+  onSelectionChange?: (ids: string[]) => void;
   zoom: number;
   onZoomChange: (zoom: number) => void;
   onTrimClip?: (clipId: string, newStart: number, newEnd: number) => void;
+  // Lift, extract or crop the dragged-out range
+  onRangeEdit?: (edit: RangeEdit, start: number, end: number) => void;
+  // Close every gap on the unlocked tracks, or just the one given
+  onCloseGaps?: (gap?: TimelineGap) => void;
+  // Range that playback repeats, if any
+  loopRange?: [number, number] | null;
+  onLoopRangeChange?: (range: [number, number] | null) => void;
+  trimMode?: TrimMode;
+  onTrimModeChange?: (mode: TrimMode) => void;
+  // Called on every move of a trim drag; `gestureId` is the same for one drag
+  onTrimEdit?: (edit: TrimEdit, gestureId: string) => void;
+  collisionMode?: CollisionMode;
+  onCollisionModeChange?: (mode: CollisionMode) => void;
+  // Called while a clip is dragged, with null when the drag ends
+  onMoveClipPreview?: (move: ClipMove | null) => void;
+  onMoveClip?: (move: ClipMove) => void;
+  // Whether trims, moves and the selection snap to nearby times
+  snapping?: boolean;
+  onSnappingChange?: (snapping: boolean) => void;
+  onSplit?: () => void;
+  // Insert a still of the video frame at the playhead
+  onFreezeFrame?: () => void;
+  // Play the selected clips backwards, or forwards again
+  onReverse?: () => void;
+  onAddTrack?: (kind: TrackKind) => void;
+  onRemoveTrack?: (id: string) => void;
+  onMoveTrack?: (id: string, toIndex: number) => void;
+  onRenameTrack?: (id: string, name: string) => void;
+  onTrackHeightChange?: (id: string, height: number, gestureId: string) => void;
+  onToggleTrack?: (id: string, toggle: TrackToggle) => void;
+  // Collapse the selected clips into a compound clip
+  onMakeCompound?: () => void;
+  // Double-clicking a compound clip opens it
+  onOpenClip?: (clipId: string) => void;
+  // Compound clips open for editing, outermost first
+  openCompounds?: { id: string; name: string }[];
+  // Go back out to `depth` open compound clips; 0 is the main timeline
+  onCloseCompound?: (depth: number) => void;
 }
 
 interface TimelineClip {
   id: string;
-  type: "video" | "image" | "text" | "audio";
+  type: ElementType;
   name: string;
   thumbnail?: string;
   start: number;
@@ -38,8 +112,73 @@ interface TimelineClip {
   track: number;
 }
 
+interface TrimDrag {
+  gestureId: string;
+  clipId: string;
+  mode: TrimMode;
+  side?: TrimSide;
+  originX: number;
+  // Timeline times that follow the mouse, for snapping
+  edges: number[];
+}
+
+interface MoveDrag {
+  clipId: string;
+  type: TimelineClip["type"];
+  start: number;
+  end: number;
+  track: number;
+  originX: number;
+  originY: number;
+  // Set once the mouse has moved far enough to count as a drag
+  target: ClipMove | null;
+}
+
+// Pixels the mouse must move before a press on a clip becomes a drag
+const DRAG_THRESHOLD = 3;
+const TRACK_HEADER_WIDTH = 176;
+
+const COLLISION_MODES: { mode: CollisionMode; label: string }[] = [
+  { mode: "block", label: "Block" },
+  { mode: "overwrite", label: "Overwrite" },
+  { mode: "insert", label: "Insert" },
+];
+
+const TRIM_MODES: { mode: TrimMode; icon: LucideIcon; hint: string }[] = [
+  { mode: "trim", icon: MoveHorizontal, hint: "V" },
+  { mode: "ripple", icon: ChevronsRight, hint: "B, or hold Shift on an edge" },
+  { mode: "roll", icon: SeparatorVertical, hint: "N, or hold Alt on an edge" },
+  { mode: "slip", icon: Film, hint: "Y, or hold Alt on a clip" },
+  { mode: "slide", icon: ArrowLeftRight, hint: "U, or hold Alt+Shift on a clip" },
+];
+
+type Modifiers = { shiftKey: boolean; altKey: boolean };
+
+const NO_MODIFIERS: Modifiers = { shiftKey: false, altKey: false };
+
+// Held modifier keys switch the trim mode for as long as they're down, by
+// the part of the clip pressed. Ctrl/Cmd is left to the selection and to
+// bypassing snapping.
+const getModifierMode = (e: Modifiers, part: "edge" | "body"): TrimMode | null => {
+  if (part === "body") {
+    if (e.altKey) return e.shiftKey ? "slide" : "slip";
+    return null;
+  }
+  if (e.altKey) return "roll";
+  if (e.shiftKey) return "ripple";
+  return null;
+};
+
+// Slip and slide drag the clip body; the other modes drag an edge
+const isBodyMode = (mode: TrimMode) => mode === "slip" || mode === "slide";
+
 const Timeline = ({
   clips,
+  tracks,
+  markers = [],
+  selectedMarkerId = null,
+  onMarkerSelect,
+  onAddMarker,
   currentTime,
   duration,
   isPlaying,
@@ -47,13 +186,50 @@ const Timeline = ({
   onPlayPause,
   onClipSelect,
   selectedClipId,
+  selectedClipIds = selectedClipId ? [selectedClipId] : [],
+  onSelectionChange,
   zoom,
   onZoomChange,
   onTrimClip,
+  onRangeEdit,
+  onCloseGaps,
+  loopRange = null,
+  onLoopRangeChange,
+  trimMode = "trim",
+  onTrimModeChange,
+  onTrimEdit,
+  collisionMode = "block",
+  onCollisionModeChange,
+  onMoveClipPreview,
+  onMoveClip,
+  snapping = true,
+  onSnappingChange,
+  onSplit,
+  onFreezeFrame,
+  onReverse,
+  onAddTrack,
+  onRemoveTrack,
+  onMoveTrack,
+  onRenameTrack,
+  onTrackHeightChange,
+  onToggleTrack,
+  onMakeCompound,
+  onOpenClip,
+  openCompounds = [],
+  onCloseCompound,
 }: TimelineProps) => {
   const [isExpanded, setIsExpanded] = useState(true);
-  const [isTrimming, setIsTrimming] = useState(false);
-  const [trimSide, setTrimSide] = useState<"start" | "end" | null>(null);
+  const [trimDrag, setTrimDrag] = useState<TrimDrag | null>(null);
+  const [moveDrag, setMoveDrag] = useState<MoveDrag | null>(null);
+  const [draggedTrackId, setDraggedTrackId] = useState<string | null>(null);
+  const [trackDropIndex, setTrackDropIndex] = useState<number | null>(null);
+  const [modifiers, setModifiers] = useState<Modifiers>(NO_MODIFIERS);
+  // Time of the target the current drag snapped to
+  const [snapLine, setSnapLine] = useState<number | null>(null);
+  // Marquee corners in pixels from the top left of the tracks
+  const [marquee, setMarquee] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  // Set when a drag moved, so the click that ends it is ignored
+  const didDragRef = useRef(false);
   const [selectionStart, setSelectionStart] = useState<number | null>(null);
   const [selectionEnd, setSelectionEnd] = useState<number | null>(null);
   const [showSelectionTooltip, setShowSelectionTooltip] = useState(false);
@@ -70,28 +246,181 @@ const Timeline = ({
     return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${milliseconds.toString().padStart(2, "0")}`;
   };
 
+  // Timeline time at a horizontal offset into the tracks area. The area can
+  // be wider than the content, so this goes by the zoom, not the width.
+  const toTimelineTime = (offsetX: number) => Math.max(0, Math.min(offsetX / pixelsPerSecond, duration));
+
   const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!timelineRef.current) return;
+    if (!timelineRef.current || consumeDrag()) return;
     
     const rect = timelineRef.current.getBoundingClientRect();
-    const offsetX = e.clientX - rect.left;
-    const newTime = (offsetX / rect.width) * duration;
-    
-    onTimeUpdate(Math.max(0, Math.min(newTime, duration)));
+    onTimeUpdate(toTimelineTime(e.clientX - rect.left));
   };
 
-  const handleTrimStart = (clipId: string, e: React.MouseEvent) => {
+  const edgeMode = getModifierMode(modifiers, "edge") ?? trimMode;
+  const bodyMode = getModifierMode(modifiers, "body") ?? trimMode;
+  const hasModifierMode = modifiers.shiftKey || modifiers.altKey;
+
+  // Top of each track row; rows are as tall as their track
+  const trackTops = tracks.reduce<number[]>(
+    (tops, track, index) => [...tops, index === 0 ? 0 : tops[index - 1] + tracks[index - 1].height],
+    []
+  );
+  const tracksHeight = tracks.reduce((total, track) => total + track.height, 0);
+  const gaps = findGaps(clips, tracks.length);
+
+  const getTrackAt = (y: number) => tracks.findIndex((track, index) => y >= trackTops[index] && y < trackTops[index] + track.height);
+
+  const isLocked = (clip: TimelineClip) => !!tracks[clip.track]?.locked;
+
+  // Shift or Ctrl/Cmd adds to and removes from the selection
+  const isSelectionModifier = (e: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }) =>
+    e.shiftKey || e.ctrlKey || e.metaKey;
+
+  // Whether a drag just ended; clears the flag
+  const consumeDrag = () => {
+    const dragged = didDragRef.current;
+    didDragRef.current = false;
+    return dragged;
+  };
+
+  // A dragged clip takes the rest of the selection along if it's selected
+  const getDraggedIds = (clipId: string) => (selectedClipIds.includes(clipId) ? selectedClipIds : [clipId]);
+
+  // Pressing an unselected clip selects it, unless it's a modifier click
+  const selectOnPress = (clipId: string, e: React.MouseEvent) => {
+    if (!selectedClipIds.includes(clipId) && !isSelectionModifier(e)) onClipSelect(clipId);
+  };
+
+  const handleClipClick = (clipId: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsTrimming(true);
-    setTrimSide("start");
-    onClipSelect(clipId);
+    if (consumeDrag()) return;
+    if (isSelectionModifier(e) && onSelectionChange) {
+      onSelectionChange(
+        selectedClipIds.includes(clipId)
+          ? selectedClipIds.filter((id) => id !== clipId)
+          : [...selectedClipIds, clipId]
+      );
+    } else {
+      onClipSelect(clipId);
+    }
   };
 
-  const handleTrimEnd = (clipId: string, e: React.MouseEvent) => {
+  // The playhead, markers and the edges of every clip except the dragged ones
+  const getSnapTargets = (excludeIds: string[] = []): SnapTarget[] => [
+    { time: currentTime, kind: "playhead" },
+    ...markers.map((marker): SnapTarget => ({ time: marker.time, kind: "marker" })),
+    ...clips
+      .filter((clip) => !excludeIds.includes(clip.id))
+      .flatMap((clip): SnapTarget[] => [
+        { time: clip.start, kind: "clip" },
+        { time: clip.end, kind: "clip" },
+      ]),
+  ];
+
+  // Offset that snaps the dragged times; holding Ctrl/Cmd bypasses snapping
+  const getSnapOffset = (times: number[], e: React.MouseEvent, excludeIds?: string[]) => {
+    const snap = snapping && !e.ctrlKey && !e.metaKey
+      ? findSnap(times, getSnapTargets(excludeIds), SNAP_THRESHOLD_PX / pixelsPerSecond, getGridStep(pixelsPerSecond))
+      : null;
+    setSnapLine(snap ? snap.time : null);
+    return snap ? snap.offset : 0;
+  };
+
+  // Track held modifiers so the mode indicator follows them
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => setModifiers({ shiftKey: e.shiftKey, altKey: e.altKey });
+    const handleBlur = () => setModifiers(NO_MODIFIERS);
+
+    window.addEventListener("keydown", handleKey);
+    window.addEventListener("keyup", handleKey);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKey);
+      window.removeEventListener("keyup", handleKey);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, []);
+
+  // Dragging an edge trims, ripples or rolls; slip and slide fall back to a
+  // plain trim there
+  const handleEdgeDragStart = (clipId: string, side: TrimSide, e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsTrimming(true);
-    setTrimSide("end");
-    onClipSelect(clipId);
+    const clip = clips.find(c => c.id === clipId);
+    if (isLocked(clip)) return;
+    const mode = getModifierMode(e, "edge") ?? trimMode;
+    setTrimDrag({
+      gestureId: uuidv4(),
+      clipId,
+      side,
+      mode: isBodyMode(mode) ? "trim" : mode,
+      originX: e.clientX,
+      edges: [side === "start" ? clip.start : clip.end],
+    });
+    didDragRef.current = false;
+    selectOnPress(clipId, e);
+  };
+
+  // Dragging a clip body slips or slides it in those modes and moves it otherwise
+  const handleClipDragStart = (clip: TimelineClip, e: React.MouseEvent) => {
+    if (isLocked(clip)) return;
+    const mode = getModifierMode(e, "body") ?? trimMode;
+    if (onTrimEdit && isBodyMode(mode)) {
+      e.stopPropagation();
+      // Slipping moves the content, not the clip, so only a slide snaps
+      setTrimDrag({
+        gestureId: uuidv4(),
+        clipId: clip.id,
+        mode,
+        originX: e.clientX,
+        edges: mode === "slide" ? [clip.start, clip.end] : [],
+      });
+      didDragRef.current = false;
+      selectOnPress(clip.id, e);
+    } else if (onMoveClip) {
+      e.stopPropagation();
+      didDragRef.current = false;
+      setMoveDrag({
+        clipId: clip.id,
+        type: clip.type,
+        start: clip.start,
+        end: clip.end,
+        track: clip.track,
+        originX: e.clientX,
+        originY: e.clientY,
+        target: null,
+      });
+    }
+  };
+
+  // Follow the mouse along the timeline and onto any compatible track
+  const updateMoveDrag = (drag: MoveDrag, e: React.MouseEvent) => {
+    const dx = e.clientX - drag.originX;
+    const dy = e.clientY - drag.originY;
+    if (!drag.target && Math.abs(dx) < DRAG_THRESHOLD && Math.abs(dy) < DRAG_THRESHOLD) return;
+
+    const rect = timelineRef.current.getBoundingClientRect();
+    const hoveredTrack = getTrackAt(e.clientY - rect.top);
+    const canDrop = hoveredTrack !== -1 && isCompatibleTrack(tracks, drag.type, hoveredTrack) && !tracks[hoveredTrack].locked;
+    const offset = dx / pixelsPerSecond;
+    const snapOffset = getSnapOffset([drag.start + offset, drag.end + offset], e, getDraggedIds(drag.clipId));
+    const target = {
+      clipId: drag.clipId,
+      start: Math.max(0, drag.start + offset + snapOffset),
+      track: canDrop ? hoveredTrack : drag.track,
+    };
+    didDragRef.current = true;
+    setMoveDrag({ ...drag, target });
+    onMoveClipPreview?.(target);
+  };
+
+  const endMoveDrag = (commit: boolean) => {
+    if (commit && moveDrag?.target) {
+      onMoveClip?.(moveDrag.target);
+      if (!selectedClipIds.includes(moveDrag.clipId)) onClipSelect(moveDrag.clipId);
+    }
+    onMoveClipPreview?.(null);
+    setMoveDrag(null);
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
@@ -100,8 +429,7 @@ const Timeline = ({
     // Get current mouse position on timeline
     const rect = timelineRef.current.getBoundingClientRect();
     const offsetX = e.clientX - rect.left;
-    const currentPoint = (offsetX / rect.width) * duration;
-    const clampedPoint = Math.max(0, Math.min(currentPoint, duration));
+    const clampedPoint = toTimelineTime(offsetX);
     
     // Update hover time indicator
     const hoverTimeEl = document.getElementById('hover-time');
@@ -111,37 +439,77 @@ const Timeline = ({
       hoverTimeEl.style.display = 'block';
     }
 
-    // Handle selection area or trimming
-    if (isTrimming && selectedClipId) {
-      const clip = clips.find(c => c.id === selectedClipId);
-      if (!clip) return;
-      
-      if (trimSide === "start") {
-        if (clampedPoint >= clip.end - 0.5) return; // Minimum clip duration
-        if (onTrimClip) onTrimClip(selectedClipId, clampedPoint, clip.end);
-      } else if (trimSide === "end") {
-        if (clampedPoint <= clip.start + 0.5) return; // Minimum clip duration
-        if (onTrimClip) onTrimClip(selectedClipId, clip.start, clampedPoint);
-      }
+    // Handle selection area, marquee, trimming or moving
+    if (marquee) {
+      setMarquee({ ...marquee, x1: offsetX, y1: e.clientY - rect.top });
+    } else if (moveDrag) {
+      updateMoveDrag(moveDrag, e);
+    } else if (trimDrag) {
+      // A press on a clip body is still a click until it moves far enough
+      const dx = e.clientX - trimDrag.originX;
+      if (isBodyMode(trimDrag.mode) && !didDragRef.current && Math.abs(dx) < DRAG_THRESHOLD) return;
+      const offset = dx / pixelsPerSecond;
+      const delta = offset + getSnapOffset(trimDrag.edges.map((edge) => edge + offset), e, [trimDrag.clipId]);
+      didDragRef.current = true;
+      onTrimEdit?.({ mode: trimDrag.mode, clipId: trimDrag.clipId, side: trimDrag.side, delta }, trimDrag.gestureId);
     } else if (selectionStart !== null) {
       // Update selection area
-      setSelectionEnd(clampedPoint);
+      setSelectionEnd(Math.max(0, Math.min(clampedPoint + getSnapOffset([clampedPoint], e), duration)));
       setShowSelectionTooltip(true);
     }
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     // Start selection if not clicking on a clip
-    if (e.target === timelineRef.current || (e.target as HTMLElement).classList.contains('timeline-tracks')) {
+    const classes = (e.target as HTMLElement).classList;
+    if (e.target === timelineRef.current || classes.contains('timeline-tracks') || classes.contains('timeline-gap')) {
       const rect = timelineRef.current!.getBoundingClientRect();
+      // With Shift or Ctrl/Cmd, draw a marquee that adds clips to the selection
+      if (isSelectionModifier(e) && onSelectionChange) {
+        const x = e.clientX - rect.left;
+        const y = e.clientY - rect.top;
+        setMarquee({ x0: x, y0: y, x1: x, y1: y });
+        return;
+      }
       const offsetX = e.clientX - rect.left;
-      const startPoint = (offsetX / rect.width) * duration;
-      setSelectionStart(Math.max(0, Math.min(startPoint, duration)));
+      const startPoint = toTimelineTime(offsetX);
+      setSelectionStart(Math.max(0, Math.min(startPoint + getSnapOffset([startPoint], e), duration)));
       setSelectionEnd(null);
     }
   };
 
+  // Select the clips the marquee touches
+  const endMarquee = () => {
+    const left = Math.min(marquee.x0, marquee.x1);
+    const right = Math.max(marquee.x0, marquee.x1);
+    const top = Math.min(marquee.y0, marquee.y1);
+    const bottom = Math.max(marquee.y0, marquee.y1);
+    setMarquee(null);
+    if (right - left < DRAG_THRESHOLD && bottom - top < DRAG_THRESHOLD) return;
+
+    didDragRef.current = true;
+    const touched = clips
+      .filter((clip) => {
+        const clipTop = trackTops[clip.track] ?? 0;
+        const clipHeight = tracks[clip.track]?.height ?? 0;
+        return clip.start * pixelsPerSecond < right && clip.end * pixelsPerSecond > left &&
+          clipTop < bottom && clipTop + clipHeight > top;
+      })
+      .map((clip) => clip.id);
+    onSelectionChange?.([...new Set([...selectedClipIds, ...touched])]);
+  };
+
   const handleMouseUp = () => {
+    setSnapLine(null);
+    if (marquee) {
+      endMarquee();
+      return;
+    }
+    if (moveDrag) {
+      endMoveDrag(true);
+      return;
+    }
+
     if (selectionStart !== null && selectionEnd !== null) {
       // Sort the selection points
       const start = Math.min(selectionStart, selectionEnd);
@@ -152,16 +520,14 @@ const Timeline = ({
         setSelectionStart(null);
         setSelectionEnd(null);
         setShowSelectionTooltip(false);
-        setIsTrimming(false);
-        setTrimSide(null);
+        setTrimDrag(null);
         return;
       }
       
       // Show tooltip with trim options
       setShowSelectionTooltip(true);
     } else {
-      setIsTrimming(false);
-      setTrimSide(null);
+      setTrimDrag(null);
     }
   };
 
@@ -177,8 +543,10 @@ const Timeline = ({
       setSelectionEnd(null);
     }
     
-    setIsTrimming(false);
-    setTrimSide(null);
+    setTrimDrag(null);
+    setSnapLine(null);
+    setMarquee(null);
+    if (moveDrag) endMoveDrag(false);
   };
 
   const applySelectionToClip = () => {
@@ -190,6 +558,20 @@ const Timeline = ({
     }
   };
 
+  const applyRangeEdit = (edit: RangeEdit) => {
+    if (selectionStart !== null && selectionEnd !== null && onRangeEdit) {
+      onRangeEdit(edit, Math.min(selectionStart, selectionEnd), Math.max(selectionStart, selectionEnd));
+      clearSelection();
+    }
+  };
+
+  const loopSelection = () => {
+    if (selectionStart !== null && selectionEnd !== null && onLoopRangeChange) {
+      onLoopRangeChange([Math.min(selectionStart, selectionEnd), Math.max(selectionStart, selectionEnd)]);
+      clearSelection();
+    }
+  };
+
   const clearSelection = () => {
     setSelectionStart(null);
     setSelectionEnd(null);
@@ -239,14 +621,25 @@ const Timeline = ({
 
   const pixelsPerSecond = 100 * zoom;
 
+  const edgeCursor = edgeMode === "roll" ? "cursor-col-resize" : "cursor-ew-resize";
+  const bodyCursor = !isBodyMode(bodyMode) ? "" : trimDrag ? "cursor-grabbing" : "cursor-grab";
+
   const getClipStyle = (clip: TimelineClip) => {
     return {
       left: `${clip.start * pixelsPerSecond}px`,
       width: `${(clip.end - clip.start) * pixelsPerSecond}px`,
-      top: `${clip.track * 38}px`,
+      top: `${(trackTops[clip.track] ?? 0) + 1}px`,
+      height: `${(tracks[clip.track]?.height ?? 38) - 2}px`,
     };
   };
 
+  // A track header dropped on another takes that track's place
+  const handleTrackDrop = (index: number) => {
+    if (draggedTrackId) onMoveTrack?.(draggedTrackId, index);
+    setDraggedTrackId(null);
+    setTrackDropIndex(null);
+  };
+
   // Selection area style
   const selectionStyle = selectionStart !== null && selectionEnd !== null ? {
     left: `${Math.min(selectionStart, selectionEnd) * pixelsPerSecond}px`,
@@ -284,9 +677,116 @@ const Timeline = ({
             <div className="font-mono text-sm">
               {formatTime(currentTime)} / {formatTime(duration)}
             </div>
+            {openCompounds.length > 0 && (
+              <nav className="flex items-center gap-1 text-xs" aria-label="Open compound clips">
+                {["Timeline", ...openCompounds.map(compound => compound.name)].map((name, depth) => (
+                  <span key={depth} className="flex items-center gap-1">
+                    {depth > 0 && <ChevronRight size={12} className="text-editor-muted" />}
+                    {depth < openCompounds.length ? (
+                      <button
+                        type="button"
+                        className="text-editor-muted hover:text-editor-accent"
+                        onClick={() => onCloseCompound?.(depth)}
+                      >
+                        {name}
+                      </button>
+                    ) : (
+                      <span className="font-medium text-orange-600">{name}</span>
+                    )}
+                  </span>
+                ))}
+              </nav>
+            )}
+            {onSplit && (
+              <IconButton
+                icon={Scissors}
+                onClick={onSplit}
+                tooltip={selectedClipId ? "Split clip at playhead (S)" : "Split all at playhead (Shift+S)"}
+              />
+            )}
+            {onFreezeFrame && (
+              <IconButton icon={Snowflake} onClick={onFreezeFrame} tooltip="Freeze frame at playhead (F)" />
+            )}
+            {onReverse && (
+              <IconButton
+                icon={Undo2}
+                onClick={onReverse}
+                tooltip="Reverse selected clips (R)"
+                disabled={selectedClipIds.length === 0}
+              />
+            )}
+            {onAddMarker && (
+              <IconButton icon={BookmarkPlus} onClick={onAddMarker} tooltip="Add marker at playhead (M)" />
+            )}
+            {onMakeCompound && (
+              <IconButton
+                icon={Group}
+                onClick={onMakeCompound}
+                tooltip="Make compound clip from selection (Ctrl/Cmd+G)"
+                disabled={selectedClipIds.length === 0}
+              />
+            )}
+            {onCloseGaps && (
+              <IconButton icon={FoldHorizontal} onClick={() => onCloseGaps()} tooltip="Close gaps on unlocked tracks" />
+            )}
+            {loopRange && (
+              <IconButton
+                icon={Repeat}
+                onClick={() => onLoopRangeChange?.(null)}
+                tooltip={`Looping ${formatTime(loopRange[0])} - ${formatTime(loopRange[1])} (click to stop)`}
+                active
+              />
+            )}
           </div>
           
           <div className="flex items-center gap-2">
+            {onMoveClip && (
+              <Select value={collisionMode} onValueChange={(value) => onCollisionModeChange?.(value as CollisionMode)}>
+                <SelectTrigger className="w-28 h-8 text-xs" title="When a dragged clip lands on another">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COLLISION_MODES.map(({ mode, label }) => (
+                    <SelectItem key={mode} value={mode}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {onSnappingChange && (
+              <IconButton
+                icon={Magnet}
+                onClick={() => onSnappingChange(!snapping)}
+                tooltip={snapping ? "Snapping on (hold Ctrl/Cmd while dragging to bypass)" : "Snapping off"}
+                active={snapping}
+              />
+            )}
+
+            {onTrimEdit && (
+              <div className="flex items-center gap-2">
+                <span
+                  className={`text-xs min-w-20 text-right ${hasModifierMode ? "text-editor-accent font-medium" : "text-editor-muted"}`}
+                >
+                  {edgeMode === bodyMode
+                    ? TRIM_MODE_LABELS[edgeMode]
+                    : `${TRIM_MODE_LABELS[edgeMode]} / ${TRIM_MODE_LABELS[bodyMode]}`}
+                </span>
+                <div className="flex bg-editor-timeline rounded-md">
+                  {TRIM_MODES.map(({ mode, icon, hint }) => (
+                    <IconButton
+                      key={mode}
+                      icon={icon}
+                      onClick={() => onTrimModeChange?.(mode)}
+                      tooltip={`${TRIM_MODE_LABELS[mode]} (${hint})`}
+                      active={edgeMode === mode || bodyMode === mode}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex bg-editor-timeline rounded-md">
               <IconButton
                 icon={Minus}
@@ -316,150 +816,321 @@ const Timeline = ({
         {isExpanded && (
           <div className="relative h-[calc(100%-48px)] overflow-x-auto overflow-y-auto custom-scrollbar">
             {/* Ruler */}
-            <div className="sticky top-0 h-8 border-b border-editor-border bg-editor-timeline flex items-end px-4 z-10">
-              <div className="relative w-full h-full">
-                {Array.from({ length: Math.ceil(duration) + 1 }).map((_, i) => (
+            <div className="sticky top-0 z-20 flex w-max min-w-full">
+              <div
+                className="sticky left-0 z-30 shrink-0 h-8 border-b border-r border-editor-border bg-editor-timeline"
+                style={{ width: `${TRACK_HEADER_WIDTH}px` }}
+              />
+              <div
+                className="relative flex-1 h-8 border-b border-editor-border bg-editor-timeline flex items-end px-4"
+                style={{ minWidth: `${duration * pixelsPerSecond}px` }}
+              >
+                {/* Loop range */}
+                {loopRange && (
                   <div
-                    key={i}
-                    className="absolute bottom-0 h-3 border-l border-editor-border"
-                    style={{ left: `${i * pixelsPerSecond}px` }}
+                    className="absolute bottom-0 h-1.5 bg-green-500/60 pointer-events-none"
+                    style={{
+                      left: `${loopRange[0] * pixelsPerSecond}px`,
+                      width: `${(loopRange[1] - loopRange[0]) * pixelsPerSecond}px`,
+                    }}
+                  />
+                )}
+
+                {/* Marker flags, lined up with the tracks rather than the padded ticks */}
+                {markers.map((marker) => (
+                  <button
+                    key={marker.id}
+                    type="button"
+                    className={`absolute top-0 z-10 h-4 min-w-3 px-0.5 rounded-r-sm text-[9px] leading-4 text-white truncate max-w-24 ${
+                      selectedMarkerId === marker.id ? "ring-2 ring-editor-accent" : ""
+                    }`}
+                    style={{ left: `${marker.time * pixelsPerSecond}px`, backgroundColor: marker.color }}
+                    title={marker.notes ? `${marker.name}\n${marker.notes}` : marker.name}
+                    onClick={() => onMarkerSelect?.(marker.id)}
                   >
-                    {i % 5 === 0 && (
-                      <div className="absolute bottom-4 transform -translate-x-1/2 text-[10px] text-editor-muted">
-                        {formatTime(i)}
-                      </div>
-                    )}
-                  </div>
+                    {zoom >= 1 ? marker.name : ""}
+                  </button>
                 ))}
+
+                <div className="relative w-full h-full">
+                  {Array.from({ length: Math.ceil(duration) + 1 }).map((_, i) => (
+                    <div
+                      key={i}
+                      className="absolute bottom-0 h-3 border-l border-editor-border"
+                      style={{ left: `${i * pixelsPerSecond}px` }}
+                    >
+                      {i % 5 === 0 && (
+                        <div className="absolute bottom-4 transform -translate-x-1/2 text-[10px] text-editor-muted">
+                          {formatTime(i)}
+                        </div>
+                      )}
+                    </div>
+                  ))}
                 
-                {/* Hover time indicator */}
-                <div 
-                  id="hover-time" 
-                  className="absolute bottom-full transform -translate-x-1/2 bg-black text-white text-xs px-1 py-0.5 rounded pointer-events-none hidden"
-                  style={{ zIndex: 30 }}
-                ></div>
+                  {/* Hover time indicator */}
+                  <div 
+                    id="hover-time" 
+                    className="absolute bottom-full transform -translate-x-1/2 bg-black text-white text-xs px-1 py-0.5 rounded pointer-events-none hidden"
+                    style={{ zIndex: 30 }}
+                  ></div>
+                </div>
               </div>
             </div>
-            
-            {/* Timeline Content */}
-            <div 
-              ref={timelineRef}
-              className="relative h-[calc(100%-32px)] min-w-full timeline-tracks"
-              style={{ width: `${duration * pixelsPerSecond}px` }}
-              onClick={handleTimelineClick}
-              onMouseMove={handleMouseMove}
-              onMouseDown={handleMouseDown}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseLeave}
-            >
-              {/* Time markers every second */}
-              {Array.from({ length: Math.ceil(duration) }).map((_, i) => (
-                <div
-                  key={`marker-${i}`}
-                  className="absolute top-0 bottom-0 border-l border-editor-border/20"
-                  style={{ left: `${i * pixelsPerSecond}px` }}
-                />
-              ))}
-              
-              {/* Playhead */}
+
+            <div className="flex w-max min-w-full min-h-[calc(100%-32px)]">
+              {/* Track headers */}
               <div
-                className="absolute top-0 bottom-0 w-px bg-editor-accent z-10"
-                style={{ left: `${currentTime * pixelsPerSecond}px` }}
+                className="sticky left-0 z-20 shrink-0 bg-white border-r border-editor-border"
+                style={{ width: `${TRACK_HEADER_WIDTH}px` }}
               >
-                <div className="absolute top-0 left-0 transform -translate-x-1/2 w-3 h-3 bg-editor-accent border-2 border-white rounded-full" />
-                <div className="absolute top-4 left-0 transform -translate-x-1/2 bg-editor-accent text-white text-xs px-1 py-0.5 rounded-sm">
-                  {formatTime(currentTime)}
-                </div>
-              </div>
-              
-              {/* Selection area */}
-              <div 
-                ref={selectionRef}
-                className="absolute top-0 bottom-0 bg-editor-accent/20 border border-editor-accent z-5"
-                style={selectionStyle}
-              >
-                {showSelectionTooltip && selectionStart !== null && selectionEnd !== null && (
-                  <div className="absolute top-1 left-1/2 transform -translate-x-1/2 bg-white shadow-md rounded p-2 z-20 flex flex-col gap-1">
-                    <div className="text-xs text-center">
-                      {formatTime(Math.min(selectionStart, selectionEnd))} - {formatTime(Math.max(selectionStart, selectionEnd))}
-                    </div>
-                    {selectedClipId && (
-                      <button 
-                        className="text-xs bg-editor-accent text-white px-2 py-1 rounded hover:bg-editor-accent/90"
-                        onClick={applySelectionToClip}
-                      >
-                        Apply to Selected Clip
-                      </button>
-                    )}
-                    <button 
-                      className="text-xs bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
-                      onClick={clearSelection}
+                {tracks.map((track, index) => (
+                  <TrackHeader
+                    key={track.id}
+                    track={track}
+                    isDropTarget={draggedTrackId !== null && draggedTrackId !== track.id && trackDropIndex === index}
+                    onRename={(name) => onRenameTrack?.(track.id, name)}
+                    onToggle={(toggle) => onToggleTrack?.(track.id, toggle)}
+                    onRemove={() => onRemoveTrack?.(track.id)}
+                    onHeightChange={(height, gestureId) => onTrackHeightChange?.(track.id, height, gestureId)}
+                    onDragStart={() => setDraggedTrackId(track.id)}
+                    onDragOver={() => setTrackDropIndex(index)}
+                    onDrop={() => handleTrackDrop(index)}
+                    onDragEnd={() => {
+                      setDraggedTrackId(null);
+                      setTrackDropIndex(null);
+                    }}
+                  />
+                ))}
+                {onAddTrack && (
+                  <div className="flex gap-1 p-1">
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 px-2 py-1 rounded text-xs text-editor-muted hover:bg-editor-border/50"
+                      onClick={() => onAddTrack("visual")}
+                    >
+                      <Plus size={12} /> Video
+                    </button>
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 px-2 py-1 rounded text-xs text-editor-muted hover:bg-editor-border/50"
+                      onClick={() => onAddTrack("audio")}
                     >
-                      Clear
+                      <Plus size={12} /> Audio
                     </button>
                   </div>
                 )}
               </div>
+
+              {/* Timeline Content */}
+              <div 
+                ref={timelineRef}
+                className="relative flex-1 timeline-tracks"
+                style={{ minWidth: `${duration * pixelsPerSecond}px`, minHeight: `${tracksHeight}px` }}
+                onClick={handleTimelineClick}
+                onMouseMove={handleMouseMove}
+                onMouseDown={handleMouseDown}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseLeave}
+              >
+                {/* Time markers every second */}
+                {Array.from({ length: Math.ceil(duration) }).map((_, i) => (
+                  <div
+                    key={`marker-${i}`}
+                    className="absolute top-0 bottom-0 border-l border-editor-border/20"
+                    style={{ left: `${i * pixelsPerSecond}px` }}
+                  />
+                ))}
               
-              {/* Track backgrounds */}
-              {[0, 1, 2].map((trackIndex) => (
-                <div 
-                  key={`track-${trackIndex}`} 
-                  className="absolute h-10 left-0 right-0 border-b border-editor-border/50"
-                  style={{ top: `${trackIndex * 38}px` }}
-                />
-              ))}
-              
-              {/* Clips */}
-              {clips.map((clip) => (
+                {/* Playhead */}
                 <div
-                  key={clip.id}
-                  className={`timeline-item absolute h-9 flex items-center px-2 rounded-sm ${
-                    selectedClipId === clip.id
-                      ? "ring-2 ring-editor-accent"
-                      : ""
-                  } ${
-                    clip.type === 'video' ? 'bg-blue-100' :
-                    clip.type === 'audio' ? 'bg-green-100' :
-                    clip.type === 'text' ? 'bg-purple-100' :
-                    clip.type === 'image' ? 'bg-yellow-100' : 'bg-gray-100'
-                  }`}
-                  style={getClipStyle(clip)}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onClipSelect(clip.id);
-                  }}
+                  className="absolute top-0 bottom-0 w-px bg-editor-accent z-10"
+                  style={{ left: `${currentTime * pixelsPerSecond}px` }}
                 >
-                  <div className="flex items-center gap-2 overflow-hidden w-full">
-                    {clip.thumbnail && (
-                      <div className="w-6 h-6 flex-shrink-0 rounded overflow-hidden">
-                        <img
-                          src={clip.thumbnail}
-                          alt={clip.name}
-                          className="w-full h-full object-cover"
-                        />
+                  <div className="absolute top-0 left-0 transform -translate-x-1/2 w-3 h-3 bg-editor-accent border-2 border-white rounded-full" />
+                  <div className="absolute top-4 left-0 transform -translate-x-1/2 bg-editor-accent text-white text-xs px-1 py-0.5 rounded-sm">
+                    {formatTime(currentTime)}
+                  </div>
+                </div>
+              
+                {/* Marker lines */}
+                {markers.map((marker) => (
+                  <div
+                    key={marker.id}
+                    className="absolute top-0 bottom-0 w-px opacity-60 pointer-events-none"
+                    style={{ left: `${marker.time * pixelsPerSecond}px`, backgroundColor: marker.color }}
+                  />
+                ))}
+
+                {/* Snap line */}
+                {snapLine !== null && (
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-amber-500 z-30 pointer-events-none"
+                    style={{ left: `${snapLine * pixelsPerSecond}px` }}
+                  />
+                )}
+
+                {/* Marquee */}
+                {marquee && (
+                  <div
+                    className="absolute border border-dashed border-editor-accent bg-editor-accent/10 z-30 pointer-events-none"
+                    style={{
+                      left: `${Math.min(marquee.x0, marquee.x1)}px`,
+                      top: `${Math.min(marquee.y0, marquee.y1)}px`,
+                      width: `${Math.abs(marquee.x1 - marquee.x0)}px`,
+                      height: `${Math.abs(marquee.y1 - marquee.y0)}px`,
+                    }}
+                  />
+                )}
+
+                {/* Selection area */}
+                <div 
+                  ref={selectionRef}
+                  className="absolute top-0 bottom-0 bg-editor-accent/20 border border-editor-accent z-5"
+                  style={selectionStyle}
+                >
+                  {showSelectionTooltip && selectionStart !== null && selectionEnd !== null && (
+                    <div className="absolute top-1 left-1/2 transform -translate-x-1/2 bg-white shadow-md rounded p-2 z-20 w-max flex flex-col gap-1">
+                      <div className="text-xs text-center">
+                        {formatTime(Math.min(selectionStart, selectionEnd))} - {formatTime(Math.max(selectionStart, selectionEnd))}
                       </div>
-                    )}
-                    <div className="truncate text-xs font-medium">
-                      {clip.name}
+                      {selectedClipId && (
+                        <button 
+                          className="text-xs bg-editor-accent text-white px-2 py-1 rounded hover:bg-editor-accent/90"
+                          onClick={applySelectionToClip}
+                        >
+                          Apply to Selected Clip
+                        </button>
+                      )}
+                      {onRangeEdit && (
+                        <div className="flex gap-1">
+                          <button
+                            className="flex-1 text-xs bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
+                            title="Delete the range on unlocked tracks, leaving a gap"
+                            onClick={() => applyRangeEdit("lift")}
+                          >
+                            Lift
+                          </button>
+                          <button
+                            className="flex-1 text-xs bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
+                            title="Delete the range on unlocked tracks and close the gap"
+                            onClick={() => applyRangeEdit("extract")}
+                          >
+                            Extract
+                          </button>
+                        </div>
+                      )}
+                      {onRangeEdit && (
+                        <button
+                          className="text-xs bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
+                          title="Keep only the range on unlocked tracks"
+                          onClick={() => applyRangeEdit("crop")}
+                        >
+                          Crop to Range
+                        </button>
+                      )}
+                      {onLoopRangeChange && (
+                        <button
+                          className="text-xs bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
+                          onClick={loopSelection}
+                        >
+                          Loop Playback
+                        </button>
+                      )}
+                      <button 
+                        className="text-xs bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
+                        onClick={clearSelection}
+                      >
+                        Clear
+                      </button>
                     </div>
-                  </div>
-                  
-                  {/* Trim handles */}
-                  {onTrimClip && (
-                    <>
-                      <div 
-                        className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-editor-accent hover:bg-opacity-30"
-                        onMouseDown={(e) => handleTrimStart(clip.id, e)}
-                      />
-                      <div 
-                        className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-editor-accent hover:bg-opacity-30"
-                        onMouseDown={(e) => handleTrimEnd(clip.id, e)}
-                      />
-                    </>
                   )}
                 </div>
-              ))}
+              
+                {/* Track backgrounds */}
+                {tracks.map((track, trackIndex) => (
+                  <div 
+                    key={track.id} 
+                    className={`absolute left-0 right-0 border-b border-editor-border/50 pointer-events-none ${
+                      track.locked ? "bg-editor-border/30" : ""
+                    }`}
+                    style={{ top: `${trackTops[trackIndex]}px`, height: `${track.height}px` }}
+                  />
+                ))}
+              
+                {/* Gaps */}
+                {gaps.map((gap) => (
+                  <div
+                    key={`${gap.track}-${gap.start}`}
+                    className="timeline-gap absolute rounded-sm border border-dashed border-red-400/60 bg-red-400/10"
+                    style={{
+                      left: `${gap.start * pixelsPerSecond}px`,
+                      width: `${(gap.end - gap.start) * pixelsPerSecond}px`,
+                      top: `${trackTops[gap.track] + 2}px`,
+                      height: `${tracks[gap.track].height - 4}px`,
+                    }}
+                    title={`Gap of ${(gap.end - gap.start).toFixed(2)}s${onCloseGaps ? " (double-click to close)" : ""}`}
+                    onDoubleClick={() => onCloseGaps?.(gap)}
+                  />
+                ))}
+
+                {/* Clips */}
+                {clips.map((clip) => (
+                  <div
+                    key={clip.id}
+                    className={`timeline-item absolute flex items-center px-2 rounded-sm ${
+                      isLocked(clip) ? "cursor-not-allowed" : bodyCursor
+                    } ${
+                      moveDrag?.target?.clipId === clip.id ? "opacity-80 shadow-lg z-20" : ""
+                    } ${
+                      tracks[clip.track]?.hidden ? "opacity-40" : ""
+                    } ${
+                      selectedClipIds.includes(clip.id)
+                        ? "ring-2 ring-editor-accent"
+                        : ""
+                    } ${
+                      clip.type === 'video' ? 'bg-blue-100' :
+                      clip.type === 'audio' ? 'bg-green-100' :
+                      clip.type === 'text' ? 'bg-purple-100' :
+                      clip.type === 'image' ? 'bg-yellow-100' :
+                      clip.type === 'compound' ? 'bg-orange-100' : 'bg-gray-100'
+                    }`}
+                    style={getClipStyle(clip)}
+                    onMouseDown={(e) => handleClipDragStart(clip, e)}
+                    onClick={(e) => handleClipClick(clip.id, e)}
+                    onDoubleClick={clip.type === 'compound' ? () => onOpenClip?.(clip.id) : undefined}
+                    title={clip.type === 'compound' ? 'Double-click to open' : undefined}
+                  >
+                    <div className="flex items-center gap-2 overflow-hidden w-full">
+                      {clip.thumbnail && (
+                        <div className="w-6 h-6 flex-shrink-0 rounded overflow-hidden">
+                          <img
+                            src={clip.thumbnail}
+                            alt={clip.name}
+                            className="w-full h-full object-cover"
+                          />
+                        </div>
+                      )}
+                      <div className="truncate text-xs font-medium">
+                        {clip.name}
+                      </div>
+                    </div>
+                  
+                    {/* Trim handles */}
+                    {onTrimEdit && !isLocked(clip) && (
+                      <>
+                        <div 
+                          className={`absolute left-0 top-0 bottom-0 w-2 ${edgeCursor} hover:bg-editor-accent hover:bg-opacity-30`}
+                          onMouseDown={(e) => handleEdgeDragStart(clip.id, "start", e)}
+                        />
+                        <div 
+                          className={`absolute right-0 top-0 bottom-0 w-2 ${edgeCursor} hover:bg-editor-accent hover:bg-opacity-30`}
+                          onMouseDown={(e) => handleEdgeDragStart(clip.id, "end", e)}
+                        />
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
         )}
@@ -34,9 +34,16 @@ interface ToolbarProps {
   canRedo: boolean;
   onUndo: () => void;
   onRedo: () => void;
+  // Labels of the steps undo/redo would apply, shown in the tooltips
+  undoLabel?: string | null;
+  redoLabel?: string | null;
   onPreview: () => void;
   canMergeVideos?: boolean;
   onMergeVideos?: () => void;
+  onSplit?: () => void;
+  onSplitAll?: () => void;
+  onFreezeFrame?: () => void;
+  onReverse?: () => void;
 }
 
 const Toolbar = ({
@@ -46,9 +53,15 @@ const Toolbar = ({
   canRedo,
   onUndo,
   onRedo,
+  undoLabel,
+  redoLabel,
   onPreview,
   canMergeVideos,
   onMergeVideos,
+  onSplit,
+  onSplitAll,
+  onFreezeFrame,
+  onReverse,
 }: ToolbarProps) => {
   const isMobile = useIsMobile();
   
@@ -112,7 +125,10 @@ const Toolbar = ({
                 ))}
                 {!isMobile && (
                   <>
-                    <DropdownMenuItem>Split Clip</DropdownMenuItem>
+                    <DropdownMenuItem onClick={onSplit}>Split Clip</DropdownMenuItem>
+                    <DropdownMenuItem onClick={onSplitAll}>Split All at Playhead</DropdownMenuItem>
+                    <DropdownMenuItem onClick={onFreezeFrame}>Freeze Frame</DropdownMenuItem>
+                    <DropdownMenuItem onClick={onReverse}>Reverse Clip</DropdownMenuItem>
                     <DropdownMenuItem>Add Transition</DropdownMenuItem>
                     <DropdownMenuItem>Add Subtitle</DropdownMenuItem>
                   </>
@@ -129,14 +145,14 @@ const Toolbar = ({
             icon={Undo}
             onClick={onUndo}
             disabled={!canUndo}
-            tooltip="Undo"
+            tooltip={undoLabel ? `Undo ${undoLabel}` : "Undo"}
             className="rounded-r-none border-r-0"
           />
           <IconButton
             icon={Redo}
             onClick={onRedo}
             disabled={!canRedo}
-            tooltip="Redo"
+            tooltip={redoLabel ? `Redo ${redoLabel}` : "Redo"}
             className="rounded-l-none"
           />
         </div>
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  AlignHorizontalJustifyStart,
+  Eye,
+  EyeOff,
+  GripVertical,
+  Lock,
+  LockOpen,
+  Trash2,
+  Volume2,
+  VolumeX,
+  LucideIcon,
+} from "lucide-react";
+import { Input } from "@/components/UI/input";
+import { cn } from "@/lib/utils";
+import { MAX_TRACK_HEIGHT, MIN_TRACK_HEIGHT } from "@/lib/tracks";
+import { Track, TrackToggle } from "@/types/timeline";
+
+interface TrackHeaderProps {
+  track: Track;
+  // Whether another track is being dragged over this one
+  isDropTarget?: boolean;
+  onRename?: (name: string) => void;
+  onToggle?: (toggle: TrackToggle) => void;
+  onRemove?: () => void;
+  // `gestureId` is the same for every call during one drag
+  onHeightChange?: (height: number, gestureId: string) => void;
+  onDragStart?: () => void;
+  onDragOver?: () => void;
+  onDrop?: () => void;
+  onDragEnd?: () => void;
+}
+
+// Small toggle button; the header is too short for IconButton
+const HeaderButton = ({
+  icon: Icon,
+  label,
+  active,
+  onClick,
+}: {
+  icon?: LucideIcon;
+  label: string;
+  active?: boolean;
+  onClick: () => void;
+}) => (
+  <button
+    type="button"
+    title={label}
+    aria-label={label}
+    aria-pressed={active}
+    className={cn(
+      "w-5 h-5 flex items-center justify-center rounded text-[10px] font-bold",
+      active ? "bg-editor-accent text-white" : "text-editor-muted hover:bg-editor-border/50"
+    )}
+    onClick={onClick}
+  >
+    {Icon ? <Icon size={12} /> : label.charAt(0)}
+  </button>
+);
+
+const TrackHeader = ({
+  track,
+  isDropTarget = false,
+  onRename,
+  onToggle,
+  onRemove,
+  onHeightChange,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: TrackHeaderProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(track.name);
+
+  const handleRename = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== track.name) onRename?.(trimmed);
+    setIsRenaming(false);
+  };
+
+  // Drag the bottom edge to change the row height
+  const handleResizeStart = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startY = e.clientY;
+    const startHeight = track.height;
+    const gestureId = uuidv4();
+
+    const onMove = (event: MouseEvent) => {
+      const height = Math.round(startHeight + event.clientY - startY);
+      onHeightChange?.(Math.max(MIN_TRACK_HEIGHT, Math.min(MAX_TRACK_HEIGHT, height)), gestureId);
+    };
+    const onUp = () => {
+      document.body.style.cursor = "";
+      document.removeEventListener("mousemove", onMove);
+      document.removeEventListener("mouseup", onUp);
+    };
+
+    document.body.style.cursor = "ns-resize";
+    document.addEventListener("mousemove", onMove);
+    document.addEventListener("mouseup", onUp);
+  };
+
+  return (
+    <div
+      className={cn(
+        "relative flex items-center gap-1 px-1 border-b border-editor-border/50 bg-white",
+        isDropTarget && "bg-editor-accent/10"
+      )}
+      style={{ height: `${track.height}px` }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver?.();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop?.();
+      }}
+    >
+      <div
+        draggable
+        className="cursor-grab text-editor-muted"
+        title="Drag to reorder"
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("text/plain", track.id);
+          onDragStart?.();
+        }}
+        onDragEnd={onDragEnd}
+      >
+        <GripVertical size={12} />
+      </div>
+
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleRename();
+              if (e.key === "Escape") setIsRenaming(false);
+            }}
+            className="h-6 px-1 text-xs"
+          />
+        ) : (
+          <div
+            className="text-xs font-medium truncate cursor-text"
+            title={`${track.name} (double-click to rename)`}
+            onDoubleClick={() => {
+              setName(track.name);
+              setIsRenaming(true);
+            }}
+          >
+            {track.name}
+          </div>
+        )}
+      </div>
+
+      <HeaderButton
+        icon={track.locked ? Lock : LockOpen}
+        label={track.locked ? "Unlock track" : "Lock track"}
+        active={track.locked}
+        onClick={() => onToggle?.("locked")}
+      />
+      {track.kind === "visual" && (
+        <HeaderButton
+          icon={track.hidden ? EyeOff : Eye}
+          label={track.hidden ? "Show track" : "Hide track"}
+          active={track.hidden}
+          onClick={() => onToggle?.("hidden")}
+        />
+      )}
+      <HeaderButton
+        icon={track.muted ? VolumeX : Volume2}
+        label={track.muted ? "Unmute track" : "Mute track"}
+        active={track.muted}
+        onClick={() => onToggle?.("muted")}
+      />
+      <HeaderButton label="Solo track" active={track.solo} onClick={() => onToggle?.("solo")} />
+      <HeaderButton
+        icon={AlignHorizontalJustifyStart}
+        label={track.magnetic ? "Magnetic: clips stay end to end (click to turn off)" : "Make track magnetic"}
+        active={track.magnetic}
+        onClick={() => onToggle?.("magnetic")}
+      />
+      <HeaderButton icon={Trash2} label="Delete track" onClick={() => onRemove?.()} />
+
+      <div
+        className="absolute left-0 right-0 -bottom-0.5 h-1 cursor-ns-resize z-10"
+        onMouseDown={handleResizeStart}
+      />
+    </div>
+  );
+};
+
+export default TrackHeader;
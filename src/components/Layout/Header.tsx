@@ -2,25 +2,56 @@
 import { Button } from "@/components/ui/button";
 import { ArrowDownToLine, Menu, Crown, Share2, ArrowLeft, ArrowRight, Save, Play } from "lucide-react";
 import IconButton from "../UI/IconButton";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/UI/dropdown-menu";
 
 interface HeaderProps {
   onExport: () => void;
   onShare: () => void;
   onSettings: () => void;
+  onSave?: () => void;
+  onNewProject?: () => void;
+  onOpenProjects?: () => void;
+  onImportBundle?: () => void;
+  onExportBundle?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
   projectName: string;
   setProjectName: (name: string) => void;
   isSaved: boolean;
   currentTime: number;
+  isExporting?: boolean;
 }
 
 const Header = ({
   onExport,
   onShare,
   onSettings,
+  onSave,
+  onNewProject,
+  onOpenProjects,
+  onImportBundle,
+  onExportBundle,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  undoLabel,
+  redoLabel,
   projectName,
   setProjectName,
   isSaved,
   currentTime,
+  isExporting = false,
 }: HeaderProps) => {
   // Format time to display as 5.0s format
   const formattedTime = `${currentTime.toFixed(1)}s`;
@@ -35,9 +66,22 @@ const Header = ({
         />
         <div className="h-6 w-px bg-white/20" />
         <div className="flex items-center gap-4">
-          <Button variant="ghost" className="text-white hover:bg-white/10 h-9 px-3">
-            File
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="text-white hover:bg-white/10 h-9 px-3">
+                File
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-48">
+              <DropdownMenuItem onClick={onNewProject}>New Project</DropdownMenuItem>
+              <DropdownMenuItem onClick={onOpenProjects}>Open Project...</DropdownMenuItem>
+              <DropdownMenuItem onClick={onImportBundle}>Import Project Bundle...</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={onSave}>Save</DropdownMenuItem>
+              <DropdownMenuItem onClick={onExportBundle}>Export Project Bundle</DropdownMenuItem>
+              <DropdownMenuItem onClick={onExport}>Export...</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button variant="ghost" className="text-white hover:bg-white/10 h-9 px-3 flex items-center gap-1">
             <span className="text-yellow-300 mr-1">✦</span>
             Resize
@@ -54,17 +98,22 @@ const Header = ({
         <div className="flex items-center gap-2">
           <IconButton 
             icon={ArrowLeft} 
-            tooltip="Undo" 
+            tooltip={undoLabel ? `Undo ${undoLabel}` : "Undo"} 
+            onClick={onUndo}
+            disabled={!canUndo}
             className="bg-transparent hover:bg-white/10 text-white"
           />
           <IconButton 
             icon={ArrowRight} 
-            tooltip="Redo" 
+            tooltip={redoLabel ? `Redo ${redoLabel}` : "Redo"} 
+            onClick={onRedo}
+            disabled={!canRedo}
             className="bg-transparent hover:bg-white/10 text-white"
           />
           <IconButton 
             icon={Save} 
             tooltip="Save" 
+            onClick={onSave}
             className="bg-transparent hover:bg-white/10 text-white"
           />
         </div>
@@ -78,6 +127,13 @@ const Header = ({
           className="bg-transparent font-medium text-white focus:outline-none border-b-2 border-transparent focus:border-white/50 transition-colors duration-200 mr-2"
           placeholder="Untitled design - Video"
         />
+        <span
+          className={`flex items-center gap-1.5 text-xs ${isSaved ? "text-white/70" : "text-yellow-200"}`}
+          title={isSaved ? "All changes saved" : "Unsaved changes are autosaved until you save the project"}
+        >
+          <span className={`w-1.5 h-1.5 rounded-full ${isSaved ? "bg-white/70" : "bg-yellow-300"}`} />
+          {isSaved ? "Saved" : "Unsaved changes"}
+        </span>
       </div>
 
       <div className="flex items-center gap-2">
@@ -107,6 +163,16 @@ const Header = ({
           <Share2 size={16} />
           Share
         </Button>
+
+        <Button
+          variant="outline"
+          className="text-white border-white/20 bg-white/10 hover:bg-white/20 flex items-center gap-1 h-9"
+          onClick={onExport}
+          disabled={isExporting}
+        >
+          <ArrowDownToLine size={16} />
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
       </div>
     </header>
   );
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { toast } from "sonner";
+import { ProjectFile, getProjectSignature } from "@/lib/projectFile";
+import { clearAutosave, writeAutosave } from "@/lib/projectStorage";
+
+const AUTOSAVE_DELAY = 1500;
+
+// Tracks whether `project` differs from the last save and, while it does,
+// keeps a debounced autosave snapshot of it. `project` is null until the
+// editor has finished opening, so the empty initial state is never saved.
+// A null `savedSignature` means the project was never saved; its first
+// state then counts as clean until something changes.
+export const useAutosave = (project: ProjectFile | null, savedSignature: string | null) => {
+  const signature = useMemo(() => (project ? getProjectSignature(project) : null), [project]);
+  const baselineRef = useRef<string | null>(null);
+  if (signature !== null && baselineRef.current === null) {
+    baselineRef.current = signature;
+  }
+
+  const isSaved = signature !== null && signature === (savedSignature ?? baselineRef.current);
+
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  const isSavedRef = useRef(isSaved);
+  isSavedRef.current = isSaved;
+
+  // Storage can be full, e.g. with large thumbnails; say so only once
+  const hasWarnedRef = useRef(false);
+  const autosave = useCallback((snapshot: ProjectFile) => {
+    try {
+      writeAutosave(snapshot);
+    } catch (error) {
+      console.error("Failed to autosave project:", error);
+      if (!hasWarnedRef.current) {
+        hasWarnedRef.current = true;
+        toast.error("Autosave is unavailable; browser storage may be full. Save your project to keep your changes.");
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!projectRef.current) return;
+    const id = projectRef.current.id;
+
+    if (isSaved) {
+      clearAutosave(id);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      if (projectRef.current) autosave(projectRef.current);
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [signature, isSaved, autosave]);
+
+  // Don't lose the last second of edits when the tab is closed
+  useEffect(() => {
+    const flush = () => {
+      if (projectRef.current && !isSavedRef.current) autosave(projectRef.current);
+    };
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, [autosave]);
+
+  return { isSaved };
+};
+
+export default useAutosave;
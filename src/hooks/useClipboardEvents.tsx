@@ -0,0 +1,48 @@
+import { useEffect, useRef } from "react";
+import { isEditableTarget } from "@/hooks/useKeyboardShortcuts";
+
+interface ClipboardHandlers {
+  // Text to put on the clipboard, or null to leave the event to the browser
+  onCopy: () => string | null;
+  onCut: () => string | null;
+  // Whether the text was handled
+  onPaste: (text: string) => boolean;
+}
+
+// Handle the browser's copy, cut and paste events outside of text fields, so
+// the system clipboard works with the usual shortcuts and menu items
+export const useClipboardEvents = (handlers: ClipboardHandlers) => {
+  // Read the latest handlers without re-binding the listeners every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleCopy = (cut: boolean) => (e: ClipboardEvent) => {
+      // Selected page text is copied as usual
+      const hasTextSelection = !(window.getSelection()?.isCollapsed ?? true);
+      if (isEditableTarget(e.target) || hasTextSelection || !e.clipboardData) return;
+      const text = cut ? handlersRef.current.onCut() : handlersRef.current.onCopy();
+      if (text === null) return;
+
+      e.preventDefault();
+      e.clipboardData.setData("text/plain", text);
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || !e.clipboardData) return;
+      if (handlersRef.current.onPaste(e.clipboardData.getData("text/plain"))) e.preventDefault();
+    };
+
+    const handleCopyEvent = handleCopy(false);
+    const handleCutEvent = handleCopy(true);
+    window.addEventListener("copy", handleCopyEvent);
+    window.addEventListener("cut", handleCutEvent);
+    window.addEventListener("paste", handlePaste);
+    return () => {
+      window.removeEventListener("copy", handleCopyEvent);
+      window.removeEventListener("cut", handleCutEvent);
+      window.removeEventListener("paste", handlePaste);
+    };
+  }, []);
+};
+
+export default useClipboardEvents;
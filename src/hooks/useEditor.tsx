@@ -1,20 +1,52 @@
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { toast } from "sonner";
-import { ToolType } from "@/types/timeline";
+import { Marker, TimelineElement, ToolType, Track } from "@/types/timeline";
+import { MediaItem } from "@/types/media";
+import { exportVideo, exportStill, downloadBlob, renderThumbnail, ExportFormat } from "@/lib/exporter";
+import { ProjectFile, createProjectFile, getProjectSignature } from "@/lib/projectFile";
+import { clearAutosave, writeProject } from "@/lib/projectStorage";
+import {
+  ChapterFormat,
+  formatWebVttChapters,
+  formatYouTubeChapters,
+  getChapters,
+  getYouTubeChapterIssues,
+} from "@/lib/markers";
+import { v4 as uuidv4 } from "uuid";
 
 const DEFAULT_CANVAS_WIDTH = 480;
 const DEFAULT_CANVAS_HEIGHT = 270;
 const DEFAULT_ASPECT_RATIO = "16:9";
 
-export const useEditor = () => {
+// Chapters from the markers, as text for a YouTube description or a WebVTT file
+const getChapterText = (markers: Marker[], duration: number, format: ChapterFormat) => {
+  const chapters = getChapters(markers, duration);
+  if (chapters.length === 0) {
+    toast.error("Add markers to create chapters");
+    return null;
+  }
+  if (format === "youtube") {
+    const issues = getYouTubeChapterIssues(chapters);
+    if (issues.length > 0) toast.warning(`YouTube may ignore these chapters: ${issues.join("; ")}`);
+    return formatYouTubeChapters(chapters);
+  }
+  return formatWebVttChapters(chapters);
+};
+
+export const useEditor = (initialProjectId?: string) => {
   const [activeTool, setActiveTool] = useState<ToolType>("select");
+  const [projectId, setProjectId] = useState(() => initialProjectId ?? uuidv4());
+  const [createdAt, setCreatedAt] = useState(() => new Date().toISOString());
   const [projectName, setProjectName] = useState("Untitled Project");
   const [canvasWidth, setCanvasWidth] = useState(DEFAULT_CANVAS_WIDTH);
   const [canvasHeight, setCanvasHeight] = useState(DEFAULT_CANVAS_HEIGHT);
   const [aspectRatio, setAspectRatio] = useState(DEFAULT_ASPECT_RATIO);
-  const [isSaved, setIsSaved] = useState(false);
+  // Signature of the last saved state, see useAutosave
+  const [savedSignature, setSavedSignature] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
+  const exportControllerRef = useRef<AbortController | null>(null);
 
   const addElement = (type: string, data: any) => {
     // Handle adding elements, including audio
@@ -58,20 +90,43 @@ export const useEditor = () => {
     setAspectRatio(ratio);
   }, []);
 
-  const saveProject = useCallback((elements: any, mediaItems: any) => {
+  // The current editor state as a project file
+  const buildProjectFile = useCallback((
+    elements: TimelineElement[],
+    tracks: Track[],
+    markers: Marker[],
+    mediaItems: MediaItem[],
+    thumbnail?: string
+  ) =>
+    createProjectFile({
+      id: projectId,
+      name: projectName,
+      createdAt,
+      thumbnail,
+      settings: { canvasWidth, canvasHeight, aspectRatio },
+      tracks,
+      markers,
+      elements,
+      mediaItems,
+    }), [projectId, createdAt, projectName, canvasWidth, canvasHeight, aspectRatio]);
+
+  const saveProject = useCallback(async (
+    elements: TimelineElement[],
+    tracks: Track[],
+    markers: Marker[],
+    mediaItems: MediaItem[]
+  ) => {
     try {
-      const projectData = {
-        name: projectName,
-        elements,
-        mediaItems,
-        canvasWidth,
-        canvasHeight,
-        aspectRatio,
-        savedAt: new Date().toISOString(),
-      };
-
-      localStorage.setItem(`reelcraft_project_${Date.now()}`, JSON.stringify(projectData));
-      setIsSaved(true);
+      // A missing thumbnail shouldn't stop the project from saving
+      const thumbnail = await renderThumbnail(elements, canvasWidth, canvasHeight, tracks).catch((error) => {
+        console.warn("Failed to render project thumbnail:", error);
+        return undefined;
+      });
+
+      const projectFile = buildProjectFile(elements, tracks, markers, mediaItems, thumbnail);
+      writeProject(projectFile);
+      clearAutosave(projectFile.id);
+      setSavedSignature(getProjectSignature(projectFile));
       toast.success("Project saved successfully");
       return true;
     } catch (error) {
@@ -79,16 +134,110 @@ export const useEditor = () => {
       toast.error("Failed to save project");
       return false;
     }
-  }, [projectName, canvasWidth, canvasHeight, aspectRatio]);
+  }, [buildProjectFile, canvasWidth, canvasHeight]);
 
-  const exportProject = useCallback(() => {
+  // Restore the project name, id and canvas settings from a project file.
+  // `savedProject` is the last saved version when `project` is a recovered
+  // autosave, or null if it was never saved.
+  const loadProject = useCallback((project: ProjectFile, savedProject: ProjectFile | null = project) => {
+    setProjectId(project.id);
+    setCreatedAt(project.createdAt);
+    setProjectName(project.name);
+    setCanvasWidth(project.settings.canvasWidth);
+    setCanvasHeight(project.settings.canvasHeight);
+    setAspectRatio(project.settings.aspectRatio);
+    // An empty signature never matches, so a recovered, never saved project stays dirty
+    setSavedSignature(savedProject ? getProjectSignature(savedProject) : "");
+  }, []);
+
+  const exportProject = useCallback(async (
+    elements: TimelineElement[],
+    tracks: Track[],
+    options: { format: ExportFormat; scale: number; fps: number }
+  ) => {
+    const controller = new AbortController();
+    exportControllerRef.current = controller;
     setIsExporting(true);
-    
-    // Simulate export process
-    setTimeout(() => {
-      setIsExporting(false);
+    setExportProgress(0);
+
+    try {
+      const blob = await exportVideo({
+        elements,
+        tracks,
+        width: canvasWidth,
+        height: canvasHeight,
+        format: options.format,
+        scale: options.scale,
+        fps: options.fps,
+        onProgress: setExportProgress,
+        signal: controller.signal,
+      });
+
+      downloadBlob(blob, `${projectName.replace(/\s+/g, "-")}.${options.format}`);
       toast.success("Project exported successfully");
-    }, 2000);
+      return true;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        toast("Export cancelled");
+      } else {
+        console.error("Failed to export project:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to export project");
+      }
+      return false;
+    } finally {
+      exportControllerRef.current = null;
+      setIsExporting(false);
+    }
+  }, [projectName, canvasWidth, canvasHeight]);
+
+  const exportFrame = useCallback(async (elements: TimelineElement[], tracks: Track[], time: number, scale: number) => {
+    try {
+      const blob = await exportStill({
+        elements,
+        tracks,
+        width: canvasWidth,
+        height: canvasHeight,
+        time,
+        scale,
+      });
+      downloadBlob(blob, `${projectName.replace(/\s+/g, "-")}-${time.toFixed(2)}s.png`);
+      toast.success("Frame saved");
+      return true;
+    } catch (error) {
+      console.error("Failed to export frame:", error);
+      toast.error("Failed to export frame");
+      return false;
+    }
+  }, [projectName, canvasWidth, canvasHeight]);
+
+  const exportChapters = useCallback((markers: Marker[], duration: number, format: ChapterFormat) => {
+    const text = getChapterText(markers, duration, format);
+    if (text === null) return false;
+    const isVtt = format === "webvtt";
+    downloadBlob(
+      new Blob([text], { type: isVtt ? "text/vtt" : "text/plain" }),
+      `${projectName.replace(/\s+/g, "-")}-chapters.${isVtt ? "vtt" : "txt"}`
+    );
+    toast.success("Chapters exported");
+    return true;
+  }, [projectName]);
+
+  const copyChapters = useCallback(async (markers: Marker[], duration: number) => {
+    const text = getChapterText(markers, duration, "youtube");
+    if (text === null) return false;
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Chapters copied to the clipboard");
+      return true;
+    } catch (error) {
+      console.error("Failed to copy chapters:", error);
+      toast.error("Failed to copy chapters");
+      return false;
+    }
+  }, []);
+
+  const cancelExport = useCallback(() => {
+    exportControllerRef.current?.abort();
   }, []);
 
   const openSettings = useCallback(() => {
@@ -101,18 +250,26 @@ export const useEditor = () => {
 
   return {
     activeTool,
+    projectId,
     projectName,
     canvasWidth,
     canvasHeight,
     aspectRatio,
-    isSaved,
+    savedSignature,
     isExporting,
+    exportProgress,
     setActiveTool,
     setProjectName,
     changeCanvasSize,
     setCanvasAspectRatio,
+    buildProjectFile,
     saveProject,
+    loadProject,
     exportProject,
+    exportFrame,
+    cancelExport,
+    exportChapters,
+    copyChapters,
     openSettings,
     shareProject,
     addElement,
@@ -0,0 +1,119 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { TimelineElement } from "@/types/timeline";
+import { FrameSource, isVisibleAt } from "@/lib/compositor";
+import { clampMediaRate, getPlaybackRateAt, getSourceTime, isReversed } from "@/lib/timeMapping";
+
+// Keeps one hidden <video>/<img> per timeline element so the compositor
+// has something to draw from. `version` changes whenever a source shows a
+// new frame, so consumers know when to redraw.
+export const useFrameSources = (elements: TimelineElement[]) => {
+  const videosRef = useRef<Record<string, HTMLVideoElement>>({});
+  const imagesRef = useRef<Record<string, HTMLImageElement>>({});
+  const [version, setVersion] = useState(0);
+
+  const bumpVersion = useCallback(() => setVersion((prev) => prev + 1), []);
+
+  // Create sources for new elements and drop the ones no longer used
+  useEffect(() => {
+    const ids = new Set<string>();
+
+    elements.forEach((element) => {
+      ids.add(element.id);
+
+      if (element.type === "video") {
+        const existing = videosRef.current[element.id];
+        if (existing && existing.dataset.src === element.content.src) return;
+        existing?.pause();
+
+        const video = document.createElement("video");
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = "auto";
+        video.dataset.src = element.content.src;
+        video.addEventListener("loadeddata", bumpVersion);
+        video.addEventListener("seeked", bumpVersion);
+        video.src = element.content.src;
+        videosRef.current[element.id] = video;
+      } else if (element.type === "image") {
+        const existing = imagesRef.current[element.id];
+        if (existing && existing.dataset.src === element.content.src) return;
+
+        const image = new Image();
+        image.dataset.src = element.content.src;
+        image.onload = bumpVersion;
+        image.src = element.content.src;
+        imagesRef.current[element.id] = image;
+      }
+    });
+
+    Object.keys(videosRef.current).forEach((id) => {
+      if (!ids.has(id)) {
+        videosRef.current[id].pause();
+        delete videosRef.current[id];
+      }
+    });
+    Object.keys(imagesRef.current).forEach((id) => {
+      if (!ids.has(id)) delete imagesRef.current[id];
+    });
+  }, [elements, bumpVersion]);
+
+  // Stop all videos on unmount
+  useEffect(() => {
+    const videos = videosRef.current;
+    return () => {
+      Object.values(videos).forEach((video) => video.pause());
+    };
+  }, []);
+
+  const getSource = useCallback((element: TimelineElement): FrameSource | null => {
+    if (element.type === "video") return videosRef.current[element.id] || null;
+    if (element.type === "image") return imagesRef.current[element.id] || null;
+    return null;
+  }, []);
+
+  const getVideo = useCallback((id: string) => videosRef.current[id] || null, []);
+
+  // Keep every video at the right source time for the timeline time
+  const syncVideos = useCallback((time: number, playing: boolean) => {
+    elements.forEach((element) => {
+      if (element.type !== "video") return;
+      const video = videosRef.current[element.id];
+      if (!video) return;
+
+      if (!isVisibleAt(element, time)) {
+        if (!video.paused) video.pause();
+        return;
+      }
+
+      const target = getSourceTime(element, time);
+      if (playing && !isReversed(element)) {
+        // Following the clip's speed ramp as it goes
+        video.playbackRate = clampMediaRate(getPlaybackRateAt(element, time));
+        video.preservesPitch = element.content.preservePitch;
+        // Let the video run freely and only correct noticeable drift
+        if (Math.abs(video.currentTime - target) > 0.3) {
+          video.currentTime = target;
+        }
+        if (video.paused) {
+          video.play().catch((error) => console.error("Error playing video:", error));
+        }
+      } else {
+        // Browsers can't play backwards, so reversed clips step through
+        // their frames by seeking
+        if (!video.paused) video.pause();
+        if (Math.abs(video.currentTime - target) > (playing ? 1 / 30 : 0.01)) {
+          video.currentTime = target;
+        }
+      }
+    });
+  }, [elements]);
+
+  return {
+    version,
+    getSource,
+    getVideo,
+    syncVideos,
+  };
+};
+
+export default useFrameSources;
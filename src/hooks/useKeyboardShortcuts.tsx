@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+
+export interface KeyboardShortcut {
+  // KeyboardEvent.key, compared case-insensitively
+  key: string;
+  // Ctrl on Windows/Linux, Cmd on macOS
+  mod?: boolean;
+  shift?: boolean;
+  handler: () => void;
+}
+
+// Shortcuts don't fire while the user is typing
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export const useKeyboardShortcuts = (shortcuts: KeyboardShortcut[]) => {
+  // Read the latest handlers without re-binding the listener every render
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+
+      const mod = e.ctrlKey || e.metaKey;
+      const shortcut = shortcutsRef.current.find(
+        (s) => s.key.toLowerCase() === e.key.toLowerCase() && !!s.mod === mod && !!s.shift === e.shiftKey
+      );
+      if (!shortcut) return;
+
+      e.preventDefault();
+      shortcut.handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+};
+
+export default useKeyboardShortcuts;
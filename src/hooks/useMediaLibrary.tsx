@@ -1,15 +1,8 @@
 import { useState, useCallback } from "react";
 import { toast } from "sonner";
 import { v4 as uuidv4 } from "uuid";
-
-interface MediaItem {
-  id: string;
-  name: string;
-  type: "image" | "video" | "audio";
-  url: string;
-  thumbnail: string;
-  duration?: number;
-}
+import { MediaItem, MediaType } from "@/types/media";
+import { storeMedia } from "@/lib/mediaStore";
 
 export const useMediaLibrary = () => {
   const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
@@ -100,14 +93,13 @@ export const useMediaLibrary = () => {
       for (const file of files) {
         const id = uuidv4();
         const thumbnail = await generateThumbnail(file);
-        const url = URL.createObjectURL(file);
 
         let duration = 0;
         if (file.type.startsWith("video/") || file.type.startsWith("audio/")) {
           duration = await getMediaDuration(file);
         }
 
-        let type: "image" | "video" | "audio";
+        let type: MediaType;
         if (file.type.startsWith("image/")) {
           type = "image";
         } else if (file.type.startsWith("video/")) {
@@ -119,6 +111,16 @@ export const useMediaLibrary = () => {
           continue;
         }
 
+        // Keep the file in the media store so saved projects can reopen it
+        let url: string;
+        try {
+          url = await storeMedia(id, file);
+        } catch (error) {
+          console.error("Failed to store media:", error);
+          toast.error(`"${file.name}" couldn't be stored and won't be kept when the project is reopened`);
+          url = URL.createObjectURL(file);
+        }
+
         const newItem = {
           id,
           name: file.name,
@@ -184,12 +186,31 @@ export const useMediaLibrary = () => {
     });
   }, []);
 
+  // Replace the library with the media of a loaded project
+  const restoreMedia = useCallback((items: MediaItem[]) => {
+    setMediaItems(items.filter(item => item.type !== "audio"));
+    setAudioItems(items.filter(item => item.type === "audio"));
+  }, []);
+
+  // Add already stored media, e.g. pasted from another project; items
+  // already in the library are skipped
+  const addMediaItems = useCallback((items: MediaItem[]) => {
+    const append = (prev: MediaItem[], added: MediaItem[]) => [
+      ...prev,
+      ...added.filter(item => !prev.some(existing => existing.id === item.id)),
+    ];
+    setMediaItems(prev => append(prev, items.filter(item => item.type !== "audio")));
+    setAudioItems(prev => append(prev, items.filter(item => item.type === "audio")));
+  }, []);
+
   return {
     mediaItems,
     audioItems,
     isLoading,
     addMedia,
+    addMediaItems,
     removeMedia,
+    restoreMedia,
   };
 };
 
@@ -0,0 +1,58 @@
+import { useCallback, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { ProjectFile } from "@/lib/projectFile";
+import { BUNDLE_EXTENSION, exportProjectBundle, importProjectBundle } from "@/lib/projectBundle";
+import { downloadBlob } from "@/lib/exporter";
+
+// Export and import .reel project bundles, reporting problems as toasts
+export const useProjectBundle = () => {
+  const navigate = useNavigate();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const exportBundle = useCallback(async (project: ProjectFile) => {
+    setIsBusy(true);
+    try {
+      const { blob, missing } = await exportProjectBundle(project);
+      downloadBlob(blob, `${project.name.replace(/\s+/g, "-")}${BUNDLE_EXTENSION}`);
+      if (missing.length > 0) {
+        toast.warning(`Exported without missing media: ${missing.join(", ")}`);
+      } else {
+        toast.success("Project bundle exported");
+      }
+      return true;
+    } catch (error) {
+      console.error("Failed to export project bundle:", error);
+      toast.error("Failed to export project bundle");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  // Import a bundle and open the new project
+  const importBundle = useCallback(async (file: File) => {
+    setIsBusy(true);
+    try {
+      const { project, warnings } = await importProjectBundle(file);
+      warnings.forEach((warning) => toast.warning(warning));
+      toast.success(`Imported "${project.name}"`);
+      navigate(`/editor/${project.id}`);
+      return true;
+    } catch (error) {
+      console.error("Failed to import project bundle:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import project bundle");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [navigate]);
+
+  return {
+    isBusy,
+    exportBundle,
+    importBundle,
+  };
+};
+
+export default useProjectBundle;
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AudibleElement, TimelineElement, Track, isAudibleElement } from "@/types/timeline";
+import { isReversed } from "@/lib/timeMapping";
+import { isTrackAudible } from "@/lib/tracks";
+import { renderElementAudio } from "@/lib/exporter";
+
+// How far, in seconds, the playhead may jump before the sound restarts there
+const SEEK_THRESHOLD = 0.2;
+
+interface ReversedSoundOptions {
+  currentTime: number;
+  isPlaying: boolean;
+  // Preview volume from 0 to 1
+  volume: number;
+}
+
+// <audio> and <video> can't play backwards, so the sound of reversed clips
+// is rendered like it is for exports (see renderElementAudio) and played
+// through Web Audio from the playhead.
+export const useReversedSound = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  { currentTime, isPlaying, volume }: ReversedSoundOptions
+) => {
+  const contextRef = useRef<AudioContext | null>(null);
+  // Rendered sound by clip, keyed by everything that changes it
+  const buffersRef = useRef(new Map<string, Promise<AudioBuffer | null>>());
+  const gainsRef = useRef(new Map<string, { gain: GainNode; element: AudibleElement }>());
+  // Context and timeline time playback started at, while playing
+  const playbackRef = useRef<{ contextTime: number; time: number } | null>(null);
+  const currentTimeRef = useRef(currentTime);
+  const volumeRef = useRef(volume);
+  const [restart, setRestart] = useState(0);
+
+  currentTimeRef.current = currentTime;
+  volumeRef.current = volume;
+
+  const reversed = useMemo(
+    () => elements.filter((el): el is AudibleElement =>
+      isAudibleElement(el) && isReversed(el) && !el.content.muted && isTrackAudible(tracks, el.track)
+    ),
+    [elements, tracks]
+  );
+
+  const getBufferKey = (element: AudibleElement) =>
+    JSON.stringify([element.id, element.content, element.end - element.start, element.speed]);
+
+  // Drop the sound of clips that changed or are gone
+  useEffect(() => {
+    const keys = new Set(reversed.map(getBufferKey));
+    Array.from(buffersRef.current.keys()).forEach((key) => {
+      if (!keys.has(key)) buffersRef.current.delete(key);
+    });
+  }, [reversed]);
+
+  // Start every reversed clip at the playhead and stop them on pause, on
+  // seeks and on edits
+  useEffect(() => {
+    if (!isPlaying || reversed.length === 0) return;
+    const context = contextRef.current ?? (contextRef.current = new AudioContext());
+    context.resume().catch((error) => console.error("Error resuming audio:", error));
+
+    const playback = { contextTime: context.currentTime, time: currentTimeRef.current };
+    playbackRef.current = playback;
+    const gains = gainsRef.current;
+    const sources: AudioBufferSourceNode[] = [];
+    let stopped = false;
+
+    reversed.forEach(async (element) => {
+      if (element.end <= playback.time) return;
+      const key = getBufferKey(element);
+      if (!buffersRef.current.has(key)) {
+        buffersRef.current.set(key, renderElementAudio(context, element));
+      }
+      const buffer = await buffersRef.current.get(key);
+      if (!buffer || stopped) return;
+
+      // Rendering may take a while; pick up wherever the playhead is now
+      const now = context.currentTime;
+      const offset = playback.time + (now - playback.contextTime) - element.start;
+      if (offset >= buffer.duration) return;
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      const gain = context.createGain();
+      gain.gain.value = (element.content.volume ?? 1) * volumeRef.current;
+      source.connect(gain).connect(context.destination);
+      gains.set(element.id, { gain, element });
+      source.start(now + Math.max(0, -offset), Math.max(0, offset));
+      sources.push(source);
+    });
+
+    return () => {
+      stopped = true;
+      sources.forEach((source) => source.stop());
+      gains.clear();
+      playbackRef.current = null;
+    };
+  }, [isPlaying, reversed, restart]);
+
+  // Restart from the playhead when it jumps
+  useEffect(() => {
+    const playback = playbackRef.current;
+    const context = contextRef.current;
+    if (!playback || !context) return;
+    const expected = playback.time + (context.currentTime - playback.contextTime);
+    if (Math.abs(currentTime - expected) > SEEK_THRESHOLD) setRestart((prev) => prev + 1);
+  }, [currentTime]);
+
+  // Follow volume changes
+  useEffect(() => {
+    gainsRef.current.forEach(({ gain, element }) => {
+      gain.gain.value = (element.content.volume ?? 1) * volume;
+    });
+  }, [volume]);
+
+  // Close the audio context on unmount
+  useEffect(() => {
+    return () => {
+      contextRef.current?.close();
+    };
+  }, []);
+};
+
+export default useReversedSound;
@@ -1,78 +1,284 @@
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { v4 as uuidv4 } from "uuid";
 import { toast } from "sonner";
-import { TimelineElement } from "@/types/timeline";
+import {
+  AudioElement,
+  ClipMove,
+  CollisionMode,
+  CroppableElement,
+  CropRect,
+  ImageElement,
+  Marker,
+  SpeedKeyframe,
+  TextContent,
+  TextElement,
+  TimelineElement,
+  Track,
+  TrackKind,
+  TrackToggle,
+  TrimEdit,
+  VideoElement,
+  isAudibleElement,
+  isCroppableElement,
+  isRangedElement,
+} from "@/types/timeline";
+import { MediaItem } from "@/types/media";
+import {
+  DEFAULT_HISTORY_LIMIT,
+  TimelineCommand,
+  TimelineOperation,
+  applyOperations,
+  createHistory,
+  describeElement,
+  describeElements,
+  executeCommand,
+  jumpHistory,
+  redoHistory,
+  trimHistory,
+  undoHistory,
+} from "@/lib/timelineHistory";
+import {
+  TRIM_MODE_LABELS,
+  applyTrimEdit,
+  canSplitAt,
+  planCloseGaps,
+  planFreezeFrame,
+  planRangeEdit,
+  planSelectionMove,
+  RANGE_EDIT_LABELS,
+  RangeEdit,
+  setElementSpeed,
+  splitElement,
+  trimElement,
+  TimelineGap,
+  withMagneticTracks,
+} from "@/lib/timelineEdits";
+import {
+  createDefaultTracks,
+  createTrack,
+  findTrackFor,
+  getNewTrackIndex,
+  getNewTrackName,
+  getTrackKind,
+  isCompatibleTrack,
+  isTrackLocked,
+  replaceTracks,
+} from "@/lib/tracks";
+import { createMarker } from "@/lib/markers";
+import { getMergeError, getMergeOrder } from "@/lib/merge";
+import {
+  createCompound,
+  getNestedElements,
+  resolveCompoundPath,
+  toNestedTime,
+  toParentTime,
+  updateCompoundPath,
+} from "@/lib/compound";
+
+const DEFAULT_DURATION = 5; // Shorter default timeline duration
+const HISTORY_LIMIT_KEY = "reelcraft_history_limit";
+const NO_MARKERS: Marker[] = [];
+
+// History labels for turning each track toggle on and off
+const TRACK_TOGGLE_LABELS: Record<TrackToggle, [string, string]> = {
+  locked: ["Lock", "Unlock"],
+  hidden: ["Hide", "Show"],
+  muted: ["Mute", "Unmute"],
+  solo: ["Solo", "Unsolo"],
+  magnetic: ["Magnetize", "Unmagnetize"],
+};
+
+// The undo step limit is a preference shared by all projects
+const readHistoryLimit = () => {
+  const stored = Number(localStorage.getItem(HISTORY_LIMIT_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_HISTORY_LIMIT;
+};
 
 export const useTimeline = () => {
-  const [elements, setElements] = useState<TimelineElement[]>([]);
-  const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+  const [history, setHistory] = useState(() => createHistory([], createDefaultTracks()));
+  const [historyLimit, setHistoryLimitState] = useState(readHistoryLimit);
+  const [selection, setSelection] = useState<string[]>([]);
   const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(5); // Shorter default timeline duration
   const [isPlaying, setIsPlaying] = useState(false);
-  const [history, setHistory] = useState<TimelineElement[][]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-
-  // Save current state to history
-  const saveHistory = useCallback(() => {
-    // Limit history to 50 states
-    const newHistory = [...history.slice(0, historyIndex + 1), [...elements]].slice(-50);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-  }, [elements, history, historyIndex]);
-
-  // Recalculate timeline duration based on all elements
-  const recalculateDuration = useCallback((currentElements: TimelineElement[]) => {
-    if (currentElements.length === 0) {
-      setDuration(5); // Default duration if no elements
-      return;
+  // Ids of the compound clips opened for editing, outermost first
+  const [compoundPath, setCompoundPath] = useState<string[]>([]);
+
+  const openCompounds = useMemo(
+    () => resolveCompoundPath(history.elements, compoundPath) ?? [],
+    [history.elements, compoundPath]
+  );
+  const innerCompound = openCompounds[openCompounds.length - 1];
+
+  // Leave compound clips that are gone, e.g. after undoing their creation
+  useEffect(() => {
+    if (compoundPath.length > 0 && !resolveCompoundPath(history.elements, compoundPath)) {
+      setCompoundPath([]);
+      setSelection([]);
     }
-    
-    const maxEnd = Math.max(...currentElements.map(el => el.end));
-    setDuration(maxEnd);
+  }, [history.elements, compoundPath]);
+
+  // While a compound clip is open the timeline edits its nested sequence.
+  // Markers belong to the main timeline and are left out.
+  const elements = innerCompound ? innerCompound.content.elements : history.elements;
+  const tracks = innerCompound ? innerCompound.content.tracks : history.tracks;
+  const markers = innerCompound ? NO_MARKERS : history.markers;
+
+  // Selected elements that still exist, e.g. after an undo
+  const selectedElementIds = useMemo(
+    () => selection.filter(id => elements.some(el => el.id === id)),
+    [selection, elements]
+  );
+  // The last selected element; panels that edit one element use it
+  const selectedElementId = selectedElementIds[selectedElementIds.length - 1] ?? null;
+
+  const setSelectedElementId = useCallback((id: string | null) => {
+    setSelection(id ? [id] : []);
   }, []);
 
+  // The timeline is as long as its last element
+  const duration = useMemo(
+    () => (elements.length === 0 ? DEFAULT_DURATION : Math.max(...elements.map(el => el.end))),
+    [elements]
+  );
+
+  // Run an edit as an undoable command. The command is built from the latest
+  // elements, tracks and markers; returning null skips the edit. Magnetic
+  // tracks are packed again as part of the same step. Inside a compound clip
+  // the edit is applied to its nested sequence and recorded as an update of
+  // the outermost compound clip.
+  const execute = useCallback((
+    buildCommand: (current: TimelineElement[], currentTracks: Track[], currentMarkers: Marker[]) => TimelineCommand | null
+  ) => {
+    setHistory((prev) => {
+      if (compoundPath.length === 0) {
+        const command = buildCommand(prev.elements, prev.tracks, prev.markers);
+        if (!command) return prev;
+        return executeCommand(prev, { ...command, operations: withMagneticTracks(prev, command.operations) }, historyLimit);
+      }
+
+      const compounds = resolveCompoundPath(prev.elements, compoundPath);
+      if (!compounds) return prev;
+      const inner = compounds[compounds.length - 1];
+      const nested = { elements: inner.content.elements, tracks: inner.content.tracks, markers: [] };
+      const command = buildCommand(nested.elements, nested.tracks, nested.markers);
+      const operations = command?.operations.filter(operation => operation.type !== "markers") ?? [];
+      if (operations.length === 0) return prev;
+
+      const edited = applyOperations(nested, withMagneticTracks(nested, operations));
+      const updated = updateCompoundPath(compounds, edited.elements, edited.tracks);
+      return executeCommand(prev, { ...command, operations: [{ type: "update", elements: [updated] }] }, historyLimit);
+    });
+  }, [compoundPath, historyLimit]);
+
+  // Replace one element through a command. Elements on locked tracks are left alone.
+  const updateElement = useCallback((
+    id: string,
+    update: (element: TimelineElement) => TimelineElement | null,
+    label: (element: TimelineElement) => string,
+    mergeKey?: string
+  ) => {
+    execute((current, currentTracks) => {
+      const element = current.find(el => el.id === id);
+      if (!element || isTrackLocked(currentTracks, element.track)) return null;
+      const updated = update(element);
+      if (!updated) return null;
+      return { label: label(element), operations: [{ type: "update", elements: [updated] }], mergeKey };
+    });
+  }, [execute]);
+
+  // Add elements, moving each to the first track that can take it if its own
+  // can't, and adding tracks when none can
+  const insertElements = useCallback((newElements: TimelineElement[], label: string) => {
+    execute((current, currentTracks) => {
+      const next = [...currentTracks];
+      const placed = newElements.map((element) => {
+        const own = isCompatibleTrack(currentTracks, element.type, element.track) && !isTrackLocked(currentTracks, element.track)
+          ? currentTracks[element.track]
+          : next[findTrackFor(next, element.type)];
+        if (own) return { element, trackId: own.id };
+
+        const kind = getTrackKind(element.type);
+        const track = createTrack(kind, getNewTrackName(next, kind));
+        next.splice(getNewTrackIndex(next, kind), 0, track);
+        return { element, trackId: track.id };
+      });
+
+      const operations: TimelineOperation[] = next.length > currentTracks.length
+        ? replaceTracks(current, currentTracks, next)
+        : [];
+      operations.push({
+        type: "insert",
+        items: placed.map(({ element, trackId }, i) => ({
+          element: { ...element, track: next.findIndex(t => t.id === trackId) },
+          index: current.length + i,
+        })),
+      });
+      return { label, operations };
+    });
+  }, [execute]);
+
+  const insertElement = useCallback((element: TimelineElement) => {
+    insertElements([element], `Add ${describeElement(element)}`);
+  }, [insertElements]);
+
   // Add a media element to the timeline
-  const addMediaElement = useCallback((mediaItem: any, trackIndex: number = 0, startTime: number = currentTime) => {
+  const addMediaElement = useCallback((mediaItem: MediaItem, trackIndex: number = 0, startTime: number = currentTime) => {
     const id = uuidv4();
     const mediaDuration = mediaItem.duration || 5;
-    
-    const newElement: TimelineElement = {
+
+    const placement = {
       id,
-      type: mediaItem.type,
       name: mediaItem.name,
       start: startTime,
       end: startTime + mediaDuration,
       track: trackIndex,
       thumbnail: mediaItem.thumbnail,
-      content: {
-        src: mediaItem.url,
-        volume: 1.0, // Ensure video has volume
-      },
       x: 10,
       y: 10,
-      width: mediaItem.type === "image" ? 300 : 480,
-      height: mediaItem.type === "image" ? 200 : 270,
       rotation: 0,
       speed: 1.0, // Default speed
     };
-    
-    setElements((prev) => {
-      const newElements = [...prev, newElement];
-      recalculateDuration(newElements);
-      return newElements;
-    });
-    
-    saveHistory();
+    // Video and audio play the whole file to begin with
+    const sourceRange = { sourceIn: 0, sourceOut: mediaDuration, originalDuration: mediaDuration };
+
+    let newElement: TimelineElement;
+    if (mediaItem.type === "image") {
+      newElement = {
+        ...placement,
+        type: "image",
+        content: { mediaId: mediaItem.id, src: mediaItem.url },
+        width: 300,
+        height: 200,
+      } satisfies ImageElement;
+    } else if (mediaItem.type === "video") {
+      newElement = {
+        ...placement,
+        type: "video",
+        content: { mediaId: mediaItem.id, src: mediaItem.url, ...sourceRange, volume: 1.0, muted: false, preservePitch: true },
+        width: 480,
+        height: 270,
+      } satisfies VideoElement;
+    } else {
+      newElement = {
+        ...placement,
+        type: "audio",
+        content: { mediaId: mediaItem.id, src: mediaItem.url, ...sourceRange, volume: 1.0, muted: false, preservePitch: true },
+        width: 0,
+        height: 0,
+      } satisfies AudioElement;
+    }
+
+    insertElement(newElement);
     return id;
-  }, [currentTime, recalculateDuration, saveHistory]);
+  }, [currentTime, insertElement]);
 
   // Add an audio element to the timeline
-  const addAudioElement = useCallback((audioFile: any, trackIndex: number = 2, startTime: number = currentTime) => {
+  const addAudioElement = useCallback((audioFile: MediaItem, trackIndex: number = 2, startTime: number = currentTime) => {
     const id = uuidv4();
     const audioDuration = audioFile.duration || 10;
     
-    const newElement: TimelineElement = {
+    const newElement: AudioElement = {
       id,
       type: "audio",
       name: audioFile.name || "Audio Track",
@@ -80,9 +286,14 @@ export const useTimeline = () => {
       end: startTime + audioDuration,
       track: trackIndex,
       content: {
+        mediaId: audioFile.id,
         src: audioFile.url,
+        sourceIn: 0,
+        sourceOut: audioDuration,
+        originalDuration: audioDuration,
         volume: 1.0, // Default to full volume
         muted: false,
+        preservePitch: true,
       },
       x: 0,
       y: 0,
@@ -91,23 +302,17 @@ export const useTimeline = () => {
       rotation: 0,
       speed: 1.0, // Default speed
     };
-    
-    setElements((prev) => {
-      const newElements = [...prev, newElement];
-      recalculateDuration(newElements);
-      return newElements;
-    });
-    
-    saveHistory();
+
+    insertElement(newElement);
     toast.success(`Added audio: ${audioFile.name || "Audio Track"}`);
     return id;
-  }, [currentTime, recalculateDuration, saveHistory]);
+  }, [currentTime, insertElement]);
 
   // Add a text element to the timeline
-  const addTextElement = useCallback((textProps: any, trackIndex: number = 0, startTime: number = currentTime) => {
+  const addTextElement = useCallback((textProps: TextContent, trackIndex: number = 0, startTime: number = currentTime) => {
     const id = uuidv4();
     
-    const newElement: TimelineElement = {
+    const newElement: TextElement = {
       id,
       type: "text",
       name: "Text",
@@ -115,216 +320,416 @@ export const useTimeline = () => {
       end: startTime + 5,
       track: trackIndex,
       content: textProps,
-      x: 240 - (textProps.content.content.length * 5),
+      x: 240 - (textProps.text.length * 5),
       y: 135,
-      width: Math.max(200, textProps.content.content.length * 10),
+      width: Math.max(200, textProps.text.length * 10),
       height: 40,
       rotation: 0,
       speed: 1.0, // Default speed
     };
-    
-    setElements((prev) => {
-      const newElements = [...prev, newElement];
-      recalculateDuration(newElements);
-      return newElements;
-    });
-    
-    saveHistory();
+
+    insertElement(newElement);
     return id;
-  }, [currentTime, recalculateDuration, saveHistory]);
+  }, [currentTime, insertElement]);
+
+  // Remove elements from the timeline; those on locked tracks stay
+  const removeElements = useCallback((ids: string[]) => {
+    const targets = elements.filter(el => ids.includes(el.id));
+    const removable = targets.filter(el => !isTrackLocked(tracks, el.track)).map(el => el.id);
+    if (removable.length < targets.length) {
+      toast.error(targets.length === 1 ? "The clip's track is locked" : "Clips on locked tracks were left in place");
+    }
+    if (removable.length === 0) return;
+
+    execute((current) => {
+      const removed = current.filter(el => removable.includes(el.id));
+      if (removed.length === 0) return null;
+      return { label: `Delete ${describeElements(removed)}`, operations: [{ type: "remove", ids: removed.map(el => el.id) }] };
+    });
+  }, [elements, tracks, execute]);
 
-  // Remove an element from the timeline
   const removeElement = useCallback((id: string) => {
-    setElements((prev) => {
-      const newElements = prev.filter((el) => el.id !== id);
-      recalculateDuration(newElements);
-      return newElements;
+    removeElements([id]);
+  }, [removeElements]);
+
+  // Move elements on the canvas together, as one undo step per drag gesture
+  const updateElementPositions = useCallback((positions: { id: string; x: number; y: number }[], gestureId?: string) => {
+    execute((current, currentTracks) => {
+      const moved = positions.flatMap(({ id, x, y }) => {
+        const element = current.find(el => el.id === id);
+        return element && !isTrackLocked(currentTracks, element.track) ? [{ ...element, x, y }] : [];
+      });
+      if (moved.length === 0) return null;
+      return {
+        label: `Move ${describeElements(moved)}`,
+        operations: [{ type: "update", elements: moved }],
+        mergeKey: gestureId && `move:${gestureId}`,
+      };
     });
-    
-    if (selectedElementId === id) {
-      setSelectedElementId(null);
-    }
-    saveHistory();
-  }, [selectedElementId, saveHistory, recalculateDuration]);
+  }, [execute]);
 
   // Update an element's position on the canvas
   const updateElementPosition = useCallback((id: string, x: number, y: number) => {
-    setElements((prev) =>
-      prev.map((el) =>
-        el.id === id ? { ...el, x, y } : el
-      )
-    );
-  }, []);
+    updateElementPositions([{ id, x, y }]);
+  }, [updateElementPositions]);
+
+  // Copy elements to just after the last of them, selecting the copies
+  const duplicateElements = useCallback((ids: string[]) => {
+    const originals = elements.filter(el => ids.includes(el.id) && !isTrackLocked(tracks, el.track));
+    if (originals.length === 0) return;
+
+    const offset = Math.max(...originals.map(el => el.end)) - Math.min(...originals.map(el => el.start));
+    const copies = originals.map(el => ({ ...el, id: uuidv4(), start: el.start + offset, end: el.end + offset }));
+    insertElements(copies, `Duplicate ${describeElements(originals)}`);
+    setSelection(copies.map(el => el.id));
+  }, [elements, tracks, insertElements]);
 
-  // Update an element's dimensions
-  const updateElementDimensions = useCallback((id: string, width: number, height: number) => {
-    setElements((prev) =>
-      prev.map((el) =>
-        el.id === id ? { ...el, width, height } : el
-      )
+  // Paste elements with starts relative to the first of them at `time`,
+  // selecting them
+  const pasteElements = useCallback((pasted: TimelineElement[], time: number = currentTime) => {
+    if (pasted.length === 0) return;
+    const copies = pasted.map(el => ({ ...el, id: uuidv4(), start: el.start + time, end: el.end + time }));
+    insertElements(copies, `Paste ${describeElements(copies)}`);
+    setSelection(copies.map(el => el.id));
+  }, [currentTime, insertElements]);
+
+  // Update an element's dimensions, as one undo step per drag gesture
+  const updateElementDimensions = useCallback((id: string, width: number, height: number, gestureId?: string) => {
+    updateElement(
+      id,
+      (el) => ({ ...el, width, height }),
+      (el) => `Resize ${describeElement(el)}`,
+      gestureId && `resize:${gestureId}`
     );
-  }, []);
+  }, [updateElement]);
 
-  // Update element volume
-  const updateElementVolume = useCallback((id: string, volume: number) => {
-    setElements((prev) =>
-      prev.map((el) =>
-        el.id === id ? { 
-          ...el, 
-          content: { 
-            ...el.content, 
-            volume 
-          }
-        } : el
-      )
+  // Update element volume, as one undo step per slider drag
+  const updateElementVolume = useCallback((id: string, volume: number, gestureId?: string) => {
+    updateElement(
+      id,
+      (el) => (isAudibleElement(el) ? { ...el, content: { ...el.content, volume } } : null),
+      (el) => `Change volume of ${describeElement(el)}`,
+      gestureId && `volume:${gestureId}`
     );
-    saveHistory();
-  }, [saveHistory]);
+  }, [updateElement]);
 
   // Toggle element mute
   const toggleElementMute = useCallback((id: string, muted: boolean) => {
-    setElements((prev) =>
-      prev.map((el) =>
-        el.id === id ? { 
-          ...el, 
-          content: { 
-            ...el.content, 
-            muted 
-          }
-        } : el
-      )
+    updateElement(
+      id,
+      (el) => (isAudibleElement(el) ? { ...el, content: { ...el.content, muted } } : null),
+      (el) => `${muted ? "Mute" : "Unmute"} ${describeElement(el)}`
     );
-    saveHistory();
-  }, [saveHistory]);
+  }, [updateElement]);
 
   // Apply crop to element
-  const cropElement = useCallback((id: string, crop: { x: number; y: number; width: number; height: number }) => {
-    setElements((prev) =>
-      prev.map((el) =>
-        el.id === id ? { 
-          ...el, 
-          content: { 
-            ...el.content, 
-            crop 
-          }
-        } : el
-      )
+  const cropElement = useCallback((id: string, crop: CropRect) => {
+    updateElement(
+      id,
+      (el) => (isCroppableElement(el) ? { ...el, content: { ...el.content, crop } } as CroppableElement : null),
+      (el) => `Crop ${describeElement(el)}`
     );
-    saveHistory();
-  }, [saveHistory]);
+  }, [updateElement]);
 
   // Update an element's time range (trim functionality)
   const updateElementTimeRange = useCallback((id: string, start: number, end: number) => {
-    setElements((prev) => {
-      const updatedElements = prev.map((el) => {
-        if (el.id === id) {
-          // If this is a video element, we should update both the start/end times
-          // and adjust the video content to reflect the new trimmed section
-          return { 
-            ...el, 
-            start, 
-            end,
-            // Update content if needed to reflect the trimmed section
-            content: {
-              ...el.content,
-              trimStart: start, // Store trim information
-              trimEnd: end
-            }
-          };
-        }
-        return el;
-      });
-      
-      // Recalculate the timeline duration based on all elements
-      recalculateDuration(updatedElements);
-      return updatedElements;
-    });
+    const element = elements.find(el => el.id === id);
+    if (!element) return;
+    if (isTrackLocked(tracks, element.track)) {
+      toast.error("Can't trim a clip on a locked track");
+      return;
+    }
+    updateElement(
+      id,
+      (el) => trimElement(el, start, end),
+      (el) => `Trim ${describeElement(el)}`
+    );
     
     // If we're trimming and the current time is outside the new range, 
     // update it to be at the start of the trimmed section
-    const element = elements.find(el => el.id === id);
-    if (element && (currentTime < start || currentTime > end)) {
+    if (currentTime < start || currentTime > end) {
       setCurrentTime(start);
     }
     
-    saveHistory();
     toast.success("Element trimmed successfully");
-  }, [elements, currentTime, saveHistory, recalculateDuration]);
+  }, [elements, tracks, currentTime, updateElement]);
 
   // Update an element's speed
-  const updateElementSpeed = useCallback((id: string, speed: number) => {
-    setElements((prev) => {
-      const updatedElements = prev.map((el) => {
-        if (el.id === id) {
-          // Calculate new duration based on speed
-          const originalDuration = el.end - el.start;
-          const newDuration = originalDuration / speed;
-          const newEnd = el.start + newDuration;
-          
-          return { 
-            ...el, 
-            speed, 
-            end: newEnd 
-          };
-        }
-        return el;
-      });
-      
-      // Recalculate the timeline duration
-      recalculateDuration(updatedElements);
-      return updatedElements;
-    });
+  // Set the speed and, when given, the speed ramp (null removes it)
+  const updateElementSpeed = useCallback((id: string, speed: number, speedRamp?: SpeedKeyframe[] | null) => {
+    const element = elements.find(el => el.id === id);
+    if (!element) return;
+    if (isTrackLocked(tracks, element.track)) {
+      toast.error("Can't change the speed of a clip on a locked track");
+      return;
+    }
+    updateElement(
+      id,
+      (el) => setElementSpeed(el, speed, speedRamp),
+      (el) => `Change speed of ${describeElement(el)}`
+    );
     
-    saveHistory();
     toast.success(`Speed set to ${speed}x`);
-  }, [saveHistory, recalculateDuration]);
+  }, [elements, tracks, updateElement]);
 
-  // Merge two video elements
-  const mergeVideoElements = useCallback((firstId: string, secondId: string) => {
-    const first = elements.find(el => el.id === firstId);
-    const second = elements.find(el => el.id === secondId);
-    
-    if (!first || !second || first.type !== "video" || second.type !== "video") {
-      toast.error("Can only merge video elements");
-      return;
+  // Keep or release the pitch of sped up sound
+  const setElementPreservePitch = useCallback((id: string, preservePitch: boolean) => {
+    updateElement(
+      id,
+      (el) => (isAudibleElement(el) ? { ...el, content: { ...el.content, preservePitch } } : null),
+      (el) => `${preservePitch ? "Preserve" : "Don't preserve"} pitch of ${describeElement(el)}`
+    );
+  }, [updateElement]);
+
+  // Replace video clips with one clip playing `mediaItem`, the clips
+  // rendered end to end (see src/lib/merge.ts). The clips must sit end to
+  // end on one track; the new clip takes their place and the first clip's
+  // canvas box.
+  const mergeVideoElements = useCallback((ids: string[], mediaItem: MediaItem) => {
+    const videos = getMergeOrder(elements.filter(el => ids.includes(el.id)));
+    const mergeError = getMergeError(videos);
+    if (mergeError) {
+      toast.error(mergeError);
+      return null;
     }
-    
-    // Create a new merged element
+    if (videos.some(el => isTrackLocked(tracks, el.track))) {
+      toast.error("Can't merge clips on a locked track");
+      return null;
+    }
+
+    const first = videos[0];
+    const length = videos[videos.length - 1].end - first.start;
     const id = uuidv4();
-    const mergedElement: TimelineElement = {
+    const mergedElement: VideoElement = {
       id,
       type: "video",
-      name: `Merged: ${first.name} + ${second.name}`,
-      start: Math.min(first.start, second.start),
-      end: Math.max(first.end, second.end),
+      name: mediaItem.name,
+      start: first.start,
+      end: first.start + length,
       track: first.track,
-      thumbnail: first.thumbnail,
+      thumbnail: mediaItem.thumbnail || first.thumbnail,
       content: {
-        src: first.content.src, // Fix: Using first video's source instead of array
-        mergedWith: second.content.src, // Store second source as a property
-        isMerged: true,
-        volume: first.content.volume || 1.0, // Keep volume settings
+        mediaId: mediaItem.id,
+        src: mediaItem.url,
+        sourceIn: 0,
+        sourceOut: length,
+        originalDuration: Math.max(length, mediaItem.duration || 0),
+        volume: 1,
+        muted: false,
+        preservePitch: true,
       },
       x: first.x,
       y: first.y,
       width: first.width,
       height: first.height,
-      rotation: 0,
-      speed: 1.0,
+      rotation: first.rotation,
+      speed: 1,
     };
-    
-    setElements(prev => {
-      const newElements = [...prev.filter(el => el.id !== firstId && el.id !== secondId), mergedElement];
-      recalculateDuration(newElements);
-      return newElements;
+
+    execute((current) => {
+      const merged = current.filter(el => videos.some(video => video.id === el.id));
+      if (merged.length !== videos.length) return null;
+      return {
+        label: `Merge ${videos.length} clips`,
+        operations: [
+          { type: "insert", items: [{ element: mergedElement, index: current.findIndex(el => el.id === first.id) }] },
+          { type: "remove", ids: videos.map(el => el.id) },
+        ],
+      };
     });
-    
-    setSelectedElementId(id);
-    saveHistory();
-    toast.success("Videos merged successfully");
-    
+
+    setSelection([id]);
+    toast.success(`Merged ${videos.length} videos`);
+
     return id;
-  }, [elements, saveHistory, recalculateDuration]);
+  }, [elements, tracks, execute]);
+
+  // Insert a still of a video clip's frame at `time`, `length` seconds long.
+  // `mediaItem` is the captured frame; it fills the clip's box with the
+  // clip's crop. The clip is split around it and later clips on its track
+  // move along.
+  const freezeFrame = useCallback((id: string, time: number, mediaItem: MediaItem, length: number) => {
+    const video = elements.find(el => el.id === id);
+    if (!video || video.type !== "video" || time < video.start || time >= video.end) {
+      toast.error("Move the playhead over a video clip to freeze a frame");
+      return null;
+    }
+    if (isTrackLocked(tracks, video.track)) {
+      toast.error("Can't freeze a frame on a locked track");
+      return null;
+    }
+
+    const stillId = uuidv4();
+    const still: ImageElement = {
+      id: stillId,
+      type: "image",
+      name: `${video.name} (freeze frame)`,
+      start: time,
+      end: time + length,
+      track: video.track,
+      thumbnail: mediaItem.thumbnail,
+      content: {
+        mediaId: mediaItem.id,
+        src: mediaItem.url,
+        ...(video.content.crop && { crop: video.content.crop }),
+      },
+      x: video.x,
+      y: video.y,
+      width: video.width,
+      height: video.height,
+      rotation: video.rotation,
+      speed: 1,
+    };
+
+    execute((current) => {
+      const element = current.find(el => el.id === id);
+      if (!element) return null;
+      return { label: `Freeze frame of ${describeElement(element)}`, operations: planFreezeFrame(current, element, still) };
+    });
+
+    setSelection([stillId]);
+    return stillId;
+  }, [elements, tracks, execute]);
+
+  // Play video, audio and compound clips backwards, or forwards again
+  const reverseElements = useCallback((ids: string[]) => {
+    const isTarget = (el: TimelineElement) =>
+      ids.includes(el.id) && isRangedElement(el) && !isTrackLocked(tracks, el.track);
+    if (!elements.some(isTarget)) {
+      toast.error("Select a video or audio clip to reverse");
+      return;
+    }
+
+    execute((current) => {
+      const targets = current.filter(isTarget);
+      if (targets.length === 0) return null;
+      return {
+        label: targets.length === 1 ? `Reverse ${describeElement(targets[0])}` : `Reverse ${targets.length} clips`,
+        operations: [{ type: "update", elements: targets.map(el => setElementSpeed(el, -(el.speed || 1))) }],
+      };
+    });
+  }, [elements, tracks, execute]);
+
+  // Collapse elements into one compound clip in their place, selecting it.
+  // It goes on the top visual track they use and fills a canvas of the given size.
+  const createCompoundElement = useCallback((ids: string[], width: number, height: number) => {
+    const grouped = elements.filter(el => ids.includes(el.id));
+    if (grouped.length === 0) {
+      toast.error("Select the clips to put in a compound clip");
+      return null;
+    }
+    if (grouped.some(el => isTrackLocked(tracks, el.track))) {
+      toast.error("Can't make a compound clip from clips on a locked track");
+      return null;
+    }
+    const visual = grouped.map(el => el.track).filter(index => tracks[index]?.kind === "visual");
+    const track = visual.length > 0 ? Math.min(...visual) : findTrackFor(tracks, "compound");
+    if (track === -1) {
+      toast.error("Add a video track for the compound clip");
+      return null;
+    }
+
+    const count = getNestedElements(history.elements).filter(el => el.type === "compound").length;
+    const compound = createCompound(grouped, tracks, { name: `Compound ${count + 1}`, track, width, height });
+
+    execute((current) => {
+      const members = current.filter(el => ids.includes(el.id));
+      if (members.length !== grouped.length) return null;
+      return {
+        label: `Make compound clip from ${describeElements(members)}`,
+        operations: [
+          { type: "insert", items: [{ element: compound, index: current.indexOf(members[0]) }] },
+          { type: "remove", ids: members.map(el => el.id) },
+        ],
+      };
+    });
+
+    setSelection([compound.id]);
+    return compound.id;
+  }, [elements, tracks, history.elements, execute]);
+
+  // Edit the nested sequence of a compound clip. The playhead moves to the
+  // same moment inside it.
+  const openCompound = useCallback((id: string) => {
+    const compound = elements.find(el => el.id === id);
+    if (compound?.type !== "compound") return;
+    setCompoundPath([...compoundPath, id]);
+    setSelection([]);
+    setCurrentTime(toNestedTime(compound, currentTime));
+    setIsPlaying(false);
+  }, [elements, compoundPath, currentTime]);
+
+  // Go back out to `depth` open compound clips (0 is the main timeline),
+  // selecting the compound clip that was left
+  const closeCompound = useCallback((depth: number = openCompounds.length - 1) => {
+    if (depth < 0 || depth >= openCompounds.length) return;
+    const closed = openCompounds.slice(depth);
+    setCompoundPath(compoundPath.slice(0, depth));
+    setSelection([closed[0].id]);
+    setCurrentTime(closed.reduceRight((time, compound) => toParentTime(compound, time), currentTime));
+    setIsPlaying(false);
+  }, [openCompounds, compoundPath, currentTime]);
+
+  // Split elements at the playhead; all elements on every track when `ids` is omitted
+  const splitElements = useCallback((ids?: string[]) => {
+    const time = currentTime;
+    const isTarget = (el: TimelineElement) =>
+      (!ids || ids.includes(el.id)) && !isTrackLocked(tracks, el.track) && canSplitAt(el, time);
+    if (!elements.some(isTarget)) {
+      toast.error("Nothing to split at the playhead");
+      return;
+    }
+
+    execute((current) => {
+      const targets = current.filter(isTarget);
+      if (targets.length === 0) return null;
+
+      const lefts: TimelineElement[] = [];
+      const rights: { element: TimelineElement; index: number }[] = [];
+      targets.forEach((element) => {
+        const [left, right] = splitElement(element, time, uuidv4());
+        lefts.push(left);
+        // Each right half goes just after its left half
+        rights.push({ element: right, index: current.indexOf(element) + 1 + rights.length });
+      });
+
+      return {
+        label: targets.length === 1 ? `Split ${describeElement(targets[0])}` : `Split ${targets.length} clips`,
+        operations: [
+          { type: "update", elements: lefts },
+          { type: "insert", items: rights },
+        ],
+      };
+    });
+  }, [elements, tracks, currentTime, execute]);
+
+  // Close every gap on the unlocked tracks, or just one
+  const closeGaps = useCallback((gap?: TimelineGap) => {
+    if (!planCloseGaps(elements, tracks, gap)) {
+      toast.info("No gaps to close");
+      return;
+    }
+    execute((current, currentTracks) => {
+      const operations = planCloseGaps(current, currentTracks, gap);
+      return operations && { label: gap ? "Close gap" : "Close gaps", operations };
+    });
+  }, [elements, tracks, execute]);
+
+  // Lift, extract or crop a time range on every unlocked track
+  const editRange = useCallback((edit: RangeEdit, start: number, end: number) => {
+    if (!planRangeEdit(elements, tracks, markers, [start, end], edit)) {
+      toast.error("Nothing to edit in the range");
+      return;
+    }
+
+    execute((current, currentTracks, currentMarkers) => {
+      const operations = planRangeEdit(current, currentTracks, currentMarkers, [start, end], edit);
+      return operations && { label: RANGE_EDIT_LABELS[edit], operations };
+    });
+    // Keep the playhead on the same content
+    if (edit === "crop") setCurrentTime(Math.max(0, Math.min(currentTime, end) - start));
+    else if (edit === "extract" && currentTime > start) setCurrentTime(Math.max(start, currentTime - (end - start)));
+  }, [elements, tracks, markers, currentTime, execute]);
 
   // Play/Pause the timeline
   const togglePlayback = useCallback(() => {
@@ -337,27 +742,199 @@ export const useTimeline = () => {
     });
   }, [currentTime, duration]);
 
+  const canUndo = history.index > 0;
+  const canRedo = history.index < history.entries.length;
+
   // Undo the last action
   const undo = useCallback(() => {
-    if (historyIndex <= 0) return false;
-    
-    const prevState = history[historyIndex - 1];
-    setElements(prevState);
-    setHistoryIndex((prev) => prev - 1);
-    recalculateDuration(prevState);
+    if (!canUndo) return false;
+    setHistory(undoHistory);
     return true;
-  }, [history, historyIndex, recalculateDuration]);
+  }, [canUndo]);
 
   // Redo the last undone action
   const redo = useCallback(() => {
-    if (historyIndex >= history.length - 1) return false;
-    
-    const nextState = history[historyIndex + 1];
-    setElements(nextState);
-    setHistoryIndex((prev) => prev + 1);
-    recalculateDuration(nextState);
+    if (!canRedo) return false;
+    setHistory(redoHistory);
     return true;
-  }, [history, historyIndex, recalculateDuration]);
+  }, [canRedo]);
+
+  // Undo or redo until `index` steps are applied (0 is the opened state)
+  const jumpToHistory = useCallback((index: number) => {
+    setHistory((prev) => jumpHistory(prev, index));
+  }, []);
+
+  const setHistoryLimit = useCallback((limit: number) => {
+    localStorage.setItem(HISTORY_LIMIT_KEY, String(limit));
+    setHistoryLimitState(limit);
+    setHistory((prev) => trimHistory(prev, limit));
+  }, []);
+
+  // Replace the timeline with the elements of a loaded project
+  const loadElements = useCallback((
+    loadedElements: TimelineElement[],
+    loadedTracks: Track[] = createDefaultTracks(),
+    loadedMarkers: Marker[] = []
+  ) => {
+    setHistory(createHistory(loadedElements, loadedTracks, loadedMarkers));
+    setCompoundPath([]);
+    setSelection([]);
+    setCurrentTime(0);
+    setIsPlaying(false);
+  }, []);
+
+  // Drop a dragged clip at a new start and track, along with the rest of
+  // the selection if it's selected
+  const moveElement = useCallback((move: ClipMove, collision: CollisionMode) => {
+    execute((current, currentTracks) => {
+      const operations = planSelectionMove(current, currentTracks, selectedElementIds, move, collision);
+      const moved = selectedElementIds.includes(move.clipId)
+        ? current.filter(el => selectedElementIds.includes(el.id))
+        : current.filter(el => el.id === move.clipId);
+      if (moved.length === 0 || !operations) return null;
+      return { label: `Move ${describeElements(moved)}`, operations };
+    });
+  }, [execute, selectedElementIds]);
+
+  // Elements as they were when the current trim drag started
+  const trimOriginRef = useRef<{ gestureId: string; elements: TimelineElement[] } | null>(null);
+
+  // Apply a trim, ripple, roll, slip or slide drag. Each move is applied to
+  // the elements from the start of the drag, so clamping never drifts, and
+  // the moves of one drag merge into one undo step.
+  const trimEdit = useCallback((edit: TrimEdit, gestureId: string) => {
+    execute((current, currentTracks) => {
+      if (trimOriginRef.current?.gestureId !== gestureId) {
+        trimOriginRef.current = { gestureId, elements: current };
+      }
+      const origin = trimOriginRef.current.elements;
+      const element = origin.find(el => el.id === edit.clipId);
+      if (!element || isTrackLocked(currentTracks, element.track)) return null;
+      const updated = applyTrimEdit(origin, edit);
+      if (updated.length === 0) return null;
+
+      return {
+        label: `${TRIM_MODE_LABELS[edit.mode]} ${describeElement(element)}`,
+        operations: [{ type: "update", elements: updated }],
+        mergeKey: `${edit.mode}:${gestureId}`,
+      };
+    });
+  }, [execute]);
+
+  // Add an empty track of the given kind
+  const addTrack = useCallback((kind: TrackKind) => {
+    execute((current, currentTracks) => {
+      const track = createTrack(kind, getNewTrackName(currentTracks, kind));
+      const next = [...currentTracks];
+      next.splice(getNewTrackIndex(currentTracks, kind), 0, track);
+      return { label: `Add track '${track.name}'`, operations: replaceTracks(current, currentTracks, next) };
+    });
+  }, [execute]);
+
+  // Delete a track and every clip on it
+  const removeTrack = useCallback((id: string) => {
+    const track = tracks.find(t => t.id === id);
+    if (track?.locked) {
+      toast.error(`Track '${track.name}' is locked`);
+      return;
+    }
+
+    execute((current, currentTracks) => {
+      const index = currentTracks.findIndex(t => t.id === id);
+      if (index === -1) return null;
+      const removed = current.filter(el => el.track === index).map(el => el.id);
+      const operations: TimelineOperation[] = removed.length > 0 ? [{ type: "remove", ids: removed }] : [];
+      const remaining = current.filter(el => el.track !== index);
+      operations.push(...replaceTracks(remaining, currentTracks, currentTracks.filter(t => t.id !== id)));
+      return { label: `Delete track '${currentTracks[index].name}'`, operations };
+    });
+
+    if (elements.some(el => el.id === selectedElementId && tracks[el.track]?.id === id)) {
+      setSelection([]);
+    }
+  }, [elements, tracks, selectedElementId, execute]);
+
+  // Move a track to a new position in the list, taking its clips along
+  const moveTrack = useCallback((id: string, toIndex: number) => {
+    execute((current, currentTracks) => {
+      const from = currentTracks.findIndex(t => t.id === id);
+      const to = Math.max(0, Math.min(toIndex, currentTracks.length - 1));
+      if (from === -1 || from === to) return null;
+
+      const next = [...currentTracks];
+      const [track] = next.splice(from, 1);
+      next.splice(to, 0, track);
+      return { label: `Move track '${track.name}'`, operations: replaceTracks(current, currentTracks, next) };
+    });
+  }, [execute]);
+
+  // Change a track's name, height or toggles
+  const updateTrack = useCallback((
+    id: string,
+    changes: Partial<Omit<Track, "id" | "kind">>,
+    label: (track: Track) => string,
+    mergeKey?: string
+  ) => {
+    execute((_current, currentTracks) => {
+      const track = currentTracks.find(t => t.id === id);
+      if (!track) return null;
+      const next = currentTracks.map(t => (t.id === id ? { ...t, ...changes } : t));
+      return { label: label(track), operations: [{ type: "tracks", tracks: next }], mergeKey };
+    });
+  }, [execute]);
+
+  const renameTrack = useCallback((id: string, name: string) => {
+    updateTrack(id, { name }, (track) => `Rename track '${track.name}'`);
+  }, [updateTrack]);
+
+  const setTrackHeight = useCallback((id: string, height: number, gestureId?: string) => {
+    updateTrack(id, { height }, (track) => `Resize track '${track.name}'`, gestureId && `track-height:${gestureId}`);
+  }, [updateTrack]);
+
+  // Flip a track's lock, visibility, mute or solo
+  const toggleTrack = useCallback((id: string, toggle: TrackToggle) => {
+    const track = tracks.find(t => t.id === id);
+    if (!track) return;
+    const value = !track[toggle];
+    const [on, off] = TRACK_TOGGLE_LABELS[toggle];
+    updateTrack(id, { [toggle]: value }, (t) => `${value ? on : off} track '${t.name}'`);
+  }, [tracks, updateTrack]);
+
+  // Drop a marker, at the playhead unless a time is given; returns its id
+  const addMarker = useCallback((time: number = currentTime) => {
+    if (innerCompound) {
+      toast.error("Close the compound clip to add markers");
+      return null;
+    }
+    const marker = createMarker(time, markers);
+    execute((_current, _tracks, currentMarkers) => ({
+      label: `Add marker '${marker.name}'`,
+      operations: [{ type: "markers", markers: [...currentMarkers, marker] }],
+    }));
+    return marker.id;
+  }, [innerCompound, currentTime, markers, execute]);
+
+  const updateMarker = useCallback((id: string, changes: Partial<Omit<Marker, "id">>) => {
+    execute((_current, _tracks, currentMarkers) => {
+      const marker = currentMarkers.find(m => m.id === id);
+      if (!marker) return null;
+      return {
+        label: `Edit marker '${marker.name}'`,
+        operations: [{ type: "markers", markers: currentMarkers.map(m => (m.id === id ? { ...m, ...changes } : m)) }],
+      };
+    });
+  }, [execute]);
+
+  const removeMarker = useCallback((id: string) => {
+    execute((_current, _tracks, currentMarkers) => {
+      const marker = currentMarkers.find(m => m.id === id);
+      if (!marker) return null;
+      return {
+        label: `Delete marker '${marker.name}'`,
+        operations: [{ type: "markers", markers: currentMarkers.filter(m => m.id !== id) }],
+      };
+    });
+  }, [execute]);
 
   // Restart the timeline
   const restartTimeline = useCallback(() => {
@@ -367,32 +944,73 @@ export const useTimeline = () => {
 
   return {
     elements,
+    tracks,
+    markers,
+    // The main timeline, whichever compound clip is open
+    projectElements: history.elements,
+    projectTracks: history.tracks,
+    projectMarkers: history.markers,
+    openCompounds,
     selectedElementId,
+    selectedElementIds,
     currentTime,
     duration,
     isPlaying,
     setSelectedElementId,
+    setSelectedElementIds: setSelection,
     setCurrentTime,
-    setDuration,
     addMediaElement,
     addTextElement,
     addAudioElement,
     removeElement,
+    removeElements,
+    duplicateElements,
+    pasteElements,
     updateElementPosition,
+    updateElementPositions,
     updateElementDimensions,
     updateElementTimeRange,
+    trimEdit,
+    moveElement,
+    addTrack,
+    removeTrack,
+    moveTrack,
+    renameTrack,
+    setTrackHeight,
+    toggleTrack,
+    addMarker,
+    updateMarker,
+    removeMarker,
     updateElementSpeed,
+    setElementPreservePitch,
     updateElementVolume,
     toggleElementMute,
     cropElement,
     mergeVideoElements,
+    freezeFrame,
+    reverseElements,
+    createCompoundElement,
+    openCompound,
+    closeCompound,
+    splitElements,
+    editRange,
+    closeGaps,
     togglePlayback,
     setIsPlaying,
     undo,
     redo,
+    loadElements,
     restartTimeline,
-    canUndo: historyIndex > 0,
-    canRedo: historyIndex < history.length - 1,
+    canUndo,
+    canRedo,
+    historyEntries: history.entries,
+    historyIndex: history.index,
+    historyBranch: history.branch,
+    historyLimit,
+    jumpToHistory,
+    setHistoryLimit,
+    undoLabel: canUndo ? history.entries[history.index - 1].label : null,
+    redoLabel: canRedo ? history.entries[history.index].label : null,
   };
 };
 
@@ -0,0 +1,139 @@
+// Prepares decoded audio for one clip: the part of the media it plays,
+// reversed and retimed as needed, so it can be played as is at normal speed.
+
+// Time-stretching works on overlapping windows of this many samples
+const FRAME_SIZE = 1024;
+const OUTPUT_HOP = FRAME_SIZE / 2;
+// How far, in samples, a window may move to line up with the one before
+const SEEK_RANGE = 256;
+
+// Periodic Hann window; at half overlap the windows add up to 1
+const WINDOW = Float32Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE));
+
+export interface ClipAudioOptions {
+  sourceIn: number;
+  sourceOut: number;
+  reverse?: boolean;
+  // Retiming: the clip's length on the timeline and the seconds of its
+  // source played `time` seconds into it. Without these the source plays
+  // as is.
+  duration?: number;
+  getSourceOffset?: (time: number) => number;
+  // Keep the pitch when retiming; otherwise it changes like tape
+  preservePitch?: boolean;
+}
+
+const createBufferLike = (context: BaseAudioContext, buffer: AudioBuffer, length: number) =>
+  context.createBuffer(buffer.numberOfChannels, Math.max(1, length), buffer.sampleRate);
+
+// The samples from `start` to `end` seconds
+const sliceAudio = (context: BaseAudioContext, buffer: AudioBuffer, start: number, end: number) => {
+  const from = Math.min(buffer.length, Math.max(0, Math.floor(start * buffer.sampleRate)));
+  const to = Math.min(buffer.length, Math.max(from, Math.ceil(end * buffer.sampleRate)));
+  const slice = createBufferLike(context, buffer, to - from);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    slice.copyToChannel(buffer.getChannelData(channel).subarray(from, to), channel);
+  }
+  return slice;
+};
+
+const reverseAudio = (context: BaseAudioContext, buffer: AudioBuffer) => {
+  const reversed = createBufferLike(context, buffer, buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = reversed.getChannelData(channel);
+    data.set(buffer.getChannelData(channel));
+    data.reverse();
+  }
+  return reversed;
+};
+
+// Read position near `target` whose start best continues the samples at
+// `continuation`, compared on a subset of samples to keep it quick
+const findBestOffset = (samples: Float32Array, continuation: number, target: number) => {
+  const overlap = FRAME_SIZE - OUTPUT_HOP;
+  let best = target;
+  let bestScore = -Infinity;
+  for (let candidate = Math.max(0, target - SEEK_RANGE); candidate <= target + SEEK_RANGE; candidate += 2) {
+    let score = 0;
+    for (let i = 0; i < overlap; i += 4) {
+      score += (samples[continuation + i] ?? 0) * (samples[candidate + i] ?? 0);
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+// Play audio faster or slower, changing its pitch, by reading each output
+// sample at `getReadPosition` between the two nearest input samples
+const resampleAudio = (
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  outputLength: number,
+  getReadPosition: (position: number) => number
+) => {
+  const resampled = createBufferLike(context, buffer, outputLength);
+  const positions = Float64Array.from({ length: outputLength }, (_, i) => getReadPosition(i));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const input = buffer.getChannelData(channel);
+    const output = resampled.getChannelData(channel);
+    for (let i = 0; i < outputLength; i++) {
+      const index = Math.floor(positions[i]);
+      if (index < 0 || index >= input.length) continue;
+      const fraction = positions[i] - index;
+      output[i] = input[index] * (1 - fraction) + (input[index + 1] ?? input[index]) * fraction;
+    }
+  }
+  return resampled;
+};
+
+// Retime audio while keeping its pitch (WSOLA: overlap-add windows read
+// from around `getReadPosition` of where they're written, each nudged to
+// line up with the last). Every channel uses the first channel's windows so
+// they stay in sync.
+const stretchAudio = (
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  outputLength: number,
+  getReadPosition: (position: number) => number
+) => {
+  const stretched = createBufferLike(context, buffer, outputLength);
+  const inputs = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  const outputs = Array.from({ length: buffer.numberOfChannels }, (_, channel) => stretched.getChannelData(channel));
+
+  let previous = 0;
+  for (let position = 0; position < outputLength; position += OUTPUT_HOP) {
+    const target = Math.max(0, Math.round(getReadPosition(position)));
+    const read = position === 0 ? target : findBestOffset(inputs[0], previous + OUTPUT_HOP, target);
+    const count = Math.max(0, Math.min(FRAME_SIZE, outputLength - position, buffer.length - read));
+    for (let channel = 0; channel < inputs.length; channel++) {
+      const input = inputs[channel];
+      const output = outputs[channel];
+      for (let i = 0; i < count; i++) {
+        output[position + i] += input[read + i] * WINDOW[i];
+      }
+    }
+    previous = read;
+  }
+  return stretched;
+};
+
+export const renderClipAudio = (
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  { sourceIn, sourceOut, reverse = false, duration, getSourceOffset, preservePitch = false }: ClipAudioOptions
+) => {
+  let clip = sliceAudio(context, buffer, sourceIn, sourceOut);
+  if (reverse) clip = reverseAudio(context, clip);
+  if (getSourceOffset && duration !== undefined) {
+    const { sampleRate } = clip;
+    const outputLength = Math.round(duration * sampleRate);
+    const getReadPosition = (position: number) => getSourceOffset(position / sampleRate) * sampleRate;
+    clip = preservePitch
+      ? stretchAudio(context, clip, outputLength, getReadPosition)
+      : resampleAudio(context, clip, outputLength, getReadPosition);
+  }
+  return clip;
+};
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { TimelineElement, isMediaElement } from "@/types/timeline";
+import { MediaItem } from "@/types/media";
+import { PROJECT_FILE_VERSION, elementSchema, mediaItemSchema } from "@/lib/projectFile";
+import { getNestedElements } from "@/lib/compound";
+import { restoreMediaUrls, serializeElements, serializeMediaItems } from "@/lib/mediaUrls";
+
+/*
+ * Clipboard format for timeline elements
+ *
+ * Copied elements are put on the system clipboard as JSON text:
+ *
+ *   { format: "reelcraft/elements", version, elements, mediaItems }
+ *
+ * `version` is the project file version the elements are stored in (see
+ * src/lib/projectFile.ts); elements from another version aren't pasted.
+ * Starts are relative to the earliest copied element. Like in project files,
+ * media is referenced by id without object URLs, and the media items the
+ * elements use are included so another project can add them to its library.
+ */
+
+export const CLIPBOARD_FORMAT = "reelcraft/elements";
+
+export interface ClipboardContent {
+  elements: TimelineElement[];
+  mediaItems: MediaItem[];
+}
+
+const clipboardSchema = z.object({
+  format: z.literal(CLIPBOARD_FORMAT),
+  version: z.literal(PROJECT_FILE_VERSION),
+  elements: z.array(elementSchema).min(1),
+  mediaItems: z.array(mediaItemSchema),
+});
+
+// Clipboard text for some elements and the media items they use
+export const serializeClipboard = (elements: TimelineElement[], mediaItems: MediaItem[]) => {
+  const first = Math.min(...elements.map((element) => element.start));
+  const mediaIds = new Set(getNestedElements(elements).filter(isMediaElement).map((element) => element.content.mediaId));
+
+  return JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    elements: serializeElements(elements).map((element) => ({ ...element, start: element.start - first, end: element.end - first })),
+    mediaItems: serializeMediaItems(mediaItems.filter((item) => mediaIds.has(item.id))),
+  });
+};
+
+// Copied elements from clipboard text, or null for any other text
+export const parseClipboard = (text: string): ClipboardContent | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const result = clipboardSchema.safeParse(data);
+  return result.success ? (result.data as ClipboardContent) : null;
+};
+
+// Recreate object URLs for pasted media, leaving out media items that
+// aren't in this browser's media store. Returns the names of missing media.
+export const restoreClipboardMedia = async (content: ClipboardContent) => {
+  const { elements, mediaItems, missing } = await restoreMediaUrls(content.elements, content.mediaItems);
+  return { elements, mediaItems: mediaItems.filter((item) => item.url), missing };
+};
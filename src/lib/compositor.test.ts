@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { AudioElement, CompoundElement, TextElement, TimelineElement } from "@/types/timeline";
+import { createTrack } from "@/lib/tracks";
+import { flattenCompounds } from "@/lib/compound";
+import { getVisibleElements, isVisibleAt, renderFrame } from "@/lib/compositor";
+
+const text = (id: string, start: number, end: number, track: number): TextElement => ({
+  id,
+  type: "text",
+  name: id,
+  start,
+  end,
+  track,
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 50,
+  rotation: 0,
+  speed: 1,
+  content: {
+    text: id,
+    fontSize: 24,
+    fontWeight: "normal",
+    fontStyle: "normal",
+    color: "#ffffff",
+    alignment: "center",
+  },
+});
+
+const audio = (id: string, start: number, end: number, track: number): AudioElement => ({
+  id,
+  type: "audio",
+  name: id,
+  start,
+  end,
+  track,
+  x: 0,
+  y: 0,
+  width: 0,
+  height: 0,
+  rotation: 0,
+  speed: 1,
+  content: {
+    mediaId: id,
+    src: "",
+    sourceIn: 0,
+    sourceOut: end - start,
+    originalDuration: end - start,
+    volume: 1,
+    muted: false,
+    preservePitch: true,
+  },
+});
+
+const ids = (elements: TimelineElement[]) => elements.map((element) => element.id);
+
+describe("isVisibleAt", () => {
+  it("includes the start and excludes the end", () => {
+    const element = text("a", 1, 3, 0);
+    expect(isVisibleAt(element, 0.99)).toBe(false);
+    expect(isVisibleAt(element, 1)).toBe(true);
+    expect(isVisibleAt(element, 2.99)).toBe(true);
+    expect(isVisibleAt(element, 3)).toBe(false);
+  });
+
+  it("never shows audio", () => {
+    expect(isVisibleAt(audio("a", 0, 5, 0), 1)).toBe(false);
+  });
+});
+
+describe("getVisibleElements", () => {
+  it("only returns the elements at the time", () => {
+    const elements = [text("before", 0, 1, 0), text("now", 1, 2, 0), text("after", 2, 3, 0)];
+    expect(ids(getVisibleElements(elements, 1.5))).toEqual(["now"]);
+  });
+
+  it("draws lower tracks first so the top track ends up on top", () => {
+    const elements = [text("top", 0, 5, 0), text("bottom", 0, 5, 2), text("middle", 0, 5, 1)];
+    expect(ids(getVisibleElements(elements, 1))).toEqual(["bottom", "middle", "top"]);
+  });
+
+  it("keeps the timeline order of elements on the same track", () => {
+    const elements = [text("first", 0, 5, 1), text("second", 0, 5, 1), text("top", 0, 5, 0)];
+    expect(ids(getVisibleElements(elements, 1))).toEqual(["first", "second", "top"]);
+  });
+
+  it("leaves out elements on hidden tracks", () => {
+    const tracks = [createTrack("visual", "Video 1"), { ...createTrack("visual", "Video 2"), hidden: true }];
+    const elements = [text("shown", 0, 5, 0), text("hidden", 0, 5, 1)];
+    expect(ids(getVisibleElements(elements, 1, tracks))).toEqual(["shown"]);
+  });
+
+  it("shows elements on tracks it wasn't given", () => {
+    expect(ids(getVisibleElements([text("a", 0, 5, 3)], 1, [createTrack("visual", "Video 1")]))).toEqual(["a"]);
+  });
+
+  it("doesn't reorder the elements passed in", () => {
+    const elements = [text("top", 0, 5, 0), text("bottom", 0, 5, 1)];
+    getVisibleElements(elements, 1);
+    expect(ids(elements)).toEqual(["top", "bottom"]);
+  });
+});
+
+// Records where each element is drawn: the center it's moved to and its turn
+const createRecordingContext = () => {
+  const draws: { x: number; y: number; rotation: number }[] = [];
+  let current = { x: 0, y: 0, rotation: 0 };
+  const ctx = {
+    save: () => {},
+    restore: () => {
+      current = { x: 0, y: 0, rotation: 0 };
+    },
+    fillRect: () => {},
+    translate: (x: number, y: number) => {
+      current = { ...current, x, y };
+    },
+    rotate: (radians: number) => {
+      current = { ...current, rotation: (radians * 180) / Math.PI };
+    },
+    fillText: () => {
+      draws.push(current);
+    },
+  };
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, draws };
+};
+
+describe("renderFrame", () => {
+  it("turns the elements of a rotated compound clip around its center", () => {
+    // A 200 x 100 compound at (100, 100) holding a 20 x 20 text at its
+    // right end, laid out on a canvas of the same size
+    const compound: CompoundElement = {
+      ...text("compound", 0, 5, 0),
+      type: "compound",
+      x: 100,
+      y: 100,
+      width: 200,
+      height: 100,
+      rotation: 90,
+      content: {
+        elements: [{ ...text("child", 0, 5, 0), x: 180, y: 40, width: 20, height: 20 }],
+        tracks: [createTrack("visual", "Video 1")],
+        width: 200,
+        height: 100,
+        sourceIn: 0,
+        sourceOut: 5,
+        originalDuration: 5,
+      },
+    };
+    const { ctx, draws } = createRecordingContext();
+
+    renderFrame(ctx, { elements: flattenCompounds([compound]), width: 400, height: 300 }, 1, () => null);
+
+    // The child's center is 90 px right of the compound's center (200, 150)
+    // before turning, so 90 px below it after
+    expect(draws).toHaveLength(1);
+    expect(draws[0].x).toBeCloseTo(200);
+    expect(draws[0].y).toBeCloseTo(240);
+    expect(draws[0].rotation).toBeCloseTo(90);
+  });
+});
@@ -0,0 +1,104 @@
+import { CroppableElement, TextElement, TimelineElement, Track, isCroppableElement } from "@/types/timeline";
+import { isTrackVisible, sortByTrackOrder } from "@/lib/tracks";
+
+// Anything the compositor can draw a video or image element from
+export type FrameSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export type SourceResolver = (element: TimelineElement) => FrameSource | null | undefined;
+
+export interface FrameProject {
+  elements: TimelineElement[];
+  // Hidden tracks aren't drawn; elements are layered in track order
+  tracks?: Track[];
+  width: number;
+  height: number;
+  background?: string;
+}
+
+const DEFAULT_BACKGROUND = "#000000";
+const FULL_CROP = { x: 0, y: 0, width: 100, height: 100 };
+
+// Whether an element is drawn on the canvas at the given time
+export const isVisibleAt = (element: TimelineElement, time: number) =>
+  element.type !== "audio" && time >= element.start && time < element.end;
+
+// Visible elements at a time, in the order they are drawn (bottom first)
+export const getVisibleElements = (elements: TimelineElement[], time: number, tracks: Track[] = []) =>
+  sortByTrackOrder(elements.filter((el) => isVisibleAt(el, time) && isTrackVisible(tracks, el.track)));
+
+// Pixel size of a frame source, or zero while it is still loading
+export const getFrameSourceSize = (source: FrameSource) => {
+  if (source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  return { width: source.width, height: source.height };
+};
+
+// Draw a cropped image or video frame, fitted inside the element box
+const drawMedia = (ctx: CanvasRenderingContext2D, element: CroppableElement, source: FrameSource) => {
+  const { width: sourceWidth, height: sourceHeight } = getFrameSourceSize(source);
+  if (!sourceWidth || !sourceHeight) return;
+
+  const crop = element.content.crop || FULL_CROP;
+  const sx = (crop.x / 100) * sourceWidth;
+  const sy = (crop.y / 100) * sourceHeight;
+  const sw = Math.min((crop.width / 100) * sourceWidth, sourceWidth - sx);
+  const sh = Math.min((crop.height / 100) * sourceHeight, sourceHeight - sy);
+  if (sw <= 0 || sh <= 0) return;
+
+  // "contain" fitting, like object-fit on the old DOM preview
+  const fit = Math.min(element.width / sw, element.height / sh);
+  const dw = sw * fit;
+  const dh = sh * fit;
+  ctx.drawImage(source, sx, sy, sw, sh, -dw / 2, -dh / 2, dw, dh);
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, element: TextElement) => {
+  const props = element.content;
+  const fontSize = props.fontSize;
+  const lines = props.text.split("\n");
+  const alignment = props.alignment;
+
+  ctx.font = `${props.fontStyle} ${props.fontWeight} ${fontSize}px sans-serif`;
+  ctx.fillStyle = props.color;
+  ctx.textAlign = alignment;
+  ctx.textBaseline = "middle";
+
+  const x = alignment === "left" ? -element.width / 2 : alignment === "right" ? element.width / 2 : 0;
+  const lineHeight = fontSize * 1.2;
+  lines.forEach((line, index) => {
+    ctx.fillText(line, x, (index - (lines.length - 1) / 2) * lineHeight);
+  });
+};
+
+// Draw the frame at `time`. The context must already map project
+// coordinates to pixels; media comes from `resolveSource` and is assumed
+// to be showing the right frame (see getSourceTime).
+export const renderFrame = (
+  ctx: CanvasRenderingContext2D,
+  project: FrameProject,
+  time: number,
+  resolveSource: SourceResolver
+) => {
+  ctx.save();
+  ctx.fillStyle = project.background || DEFAULT_BACKGROUND;
+  ctx.fillRect(0, 0, project.width, project.height);
+
+  getVisibleElements(project.elements, time, project.tracks).forEach((element) => {
+    ctx.save();
+    ctx.translate(element.x + element.width / 2, element.y + element.height / 2);
+    ctx.rotate(((element.rotation || 0) * Math.PI) / 180);
+
+    if (element.type === "text") {
+      drawText(ctx, element);
+    } else if (isCroppableElement(element)) {
+      const source = resolveSource(element);
+      if (source) drawMedia(ctx, element, source);
+    }
+    ctx.restore();
+  });
+  ctx.restore();
+};
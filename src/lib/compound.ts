@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from "uuid";
+import { CompoundElement, TimelineElement, Track, VideoContent, isAudibleElement } from "@/types/timeline";
+import { MIN_CLIP_DURATION, trimElement } from "@/lib/timelineEdits";
+import { isTrackAudible, isTrackVisible, sortByTrackOrder } from "@/lib/tracks";
+import { getPlaybackRate, getSourceTime, getTimelineTime, isReversed } from "@/lib/timeMapping";
+import { mirrorSpeedRamp } from "@/lib/speedRamp";
+
+// Times closer than this count as the same
+const TIME_EPSILON = 0.001;
+
+// Every element, including the ones inside compound clips
+export const getNestedElements = (elements: TimelineElement[]): TimelineElement[] =>
+  elements.flatMap((element) =>
+    element.type === "compound" ? [element, ...getNestedElements(element.content.elements)] : [element]
+  );
+
+// Apply `update` to every element, including the ones inside compound clips
+export const mapNestedElements = (
+  elements: TimelineElement[],
+  update: (element: TimelineElement) => TimelineElement
+): TimelineElement[] =>
+  elements.map((element) =>
+    update(
+      element.type === "compound"
+        ? { ...element, content: { ...element.content, elements: mapNestedElements(element.content.elements, update) } }
+        : element
+    )
+  );
+
+// Length of a sequence; an empty one still lasts a moment so its clip can be seen
+const getSequenceDuration = (elements: TimelineElement[]) =>
+  Math.max(MIN_CLIP_DURATION, ...elements.map((element) => element.end));
+
+// Collapse elements into one compound clip at the earliest start. The
+// nested sequence keeps their layout: one nested track per track they're on.
+export const createCompound = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  options: { name: string; track: number; width: number; height: number }
+): CompoundElement => {
+  const start = Math.min(...elements.map((element) => element.start));
+  const used = [...new Set(elements.map((element) => element.track))].sort((a, b) => a - b);
+  const nested = elements.map((element) => ({
+    ...element,
+    start: element.start - start,
+    end: element.end - start,
+    track: used.indexOf(element.track),
+  }));
+  const duration = getSequenceDuration(nested);
+
+  return {
+    id: uuidv4(),
+    type: "compound",
+    name: options.name,
+    start,
+    end: start + duration,
+    track: options.track,
+    thumbnail: elements.find((element) => element.type !== "audio" && element.thumbnail)?.thumbnail,
+    content: {
+      elements: nested,
+      tracks: used.map((index) => ({ ...tracks[index], id: uuidv4(), locked: false })),
+      width: options.width,
+      height: options.height,
+      sourceIn: 0,
+      sourceOut: duration,
+      originalDuration: duration,
+    },
+    x: 0,
+    y: 0,
+    width: options.width,
+    height: options.height,
+    rotation: 0,
+    speed: 1,
+  };
+};
+
+// Give a compound clip new contents. A clip that played to the end of its
+// sequence keeps doing so as the sequence gets longer or shorter.
+export const setCompoundContent = (
+  compound: CompoundElement,
+  elements: TimelineElement[],
+  tracks: Track[]
+): CompoundElement => {
+  const { sourceIn, sourceOut, originalDuration } = compound.content;
+  const duration = getSequenceDuration(elements);
+  const newOut = sourceOut >= originalDuration - TIME_EPSILON ? duration : Math.min(sourceOut, duration);
+  const newIn = Math.min(sourceIn, Math.max(0, newOut - MIN_CLIP_DURATION));
+
+  return {
+    ...compound,
+    end: compound.start + (newOut - newIn) / getPlaybackRate(compound),
+    content: { ...compound.content, elements, tracks, sourceIn: newIn, sourceOut: newOut, originalDuration: duration },
+  };
+};
+
+// The compound clips along a path of ids, outermost first, or null when
+// one of them is gone (e.g. after an undo)
+export const resolveCompoundPath = (elements: TimelineElement[], path: string[]) => {
+  const compounds: CompoundElement[] = [];
+  let level = elements;
+  for (const id of path) {
+    const compound = level.find((element) => element.id === id);
+    if (compound?.type !== "compound") return null;
+    compounds.push(compound);
+    level = compound.content.elements;
+  }
+  return compounds;
+};
+
+// Replace the contents of the innermost compound clip on a path and return
+// the outermost one with the change applied all the way up
+export const updateCompoundPath = (
+  compounds: CompoundElement[],
+  elements: TimelineElement[],
+  tracks: Track[]
+): CompoundElement =>
+  compounds.reduceRight<CompoundElement | null>((inner, compound) => {
+    if (!inner) return setCompoundContent(compound, elements, tracks);
+    const children = compound.content.elements.map((element) => (element.id === inner.id ? inner : element));
+    return setCompoundContent(compound, children, compound.content.tracks);
+  }, null);
+
+// Nested sequence time for a time on the compound clip's timeline, and back
+export const toNestedTime = (compound: CompoundElement, time: number) =>
+  getSourceTime(compound, Math.max(compound.start, Math.min(time, compound.end)));
+
+export const toParentTime = (compound: CompoundElement, time: number) =>
+  Math.max(compound.start, Math.min(compound.end, getTimelineTime(compound, time)));
+
+// The elements of a compound clip as top level elements: trimmed to the
+// part the clip plays, mapped to its time and speed, scaled into its box,
+// turned with it and put on its track. Hidden nested tracks aren't drawn and
+// muted ones aren't heard. Ids are prefixed with the clip's so copies of a
+// clip don't clash.
+// A compound clip played backwards plays everything in it backwards.
+const flattenCompound = (compound: CompoundElement, hidden = false, muted = false): TimelineElement[] => {
+  const { sourceIn, sourceOut, width, height, tracks } = compound.content;
+  const scaleX = compound.width / width;
+  const scaleY = compound.height / height;
+  const toParent = (time: number) => getTimelineTime(compound, time);
+  // Elements turn around their centers, so children's centers are turned
+  // around the compound's
+  const angle = ((compound.rotation || 0) * Math.PI) / 180;
+  const centerX = compound.x + compound.width / 2;
+  const centerY = compound.y + compound.height / 2;
+  const toParentCenter = (x: number, y: number) => {
+    const dx = compound.x + x * scaleX - centerX;
+    const dy = compound.y + y * scaleY - centerY;
+    return {
+      x: centerX + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: centerY + dx * Math.sin(angle) + dy * Math.cos(angle),
+    };
+  };
+
+  return sortByTrackOrder(compound.content.elements)
+    .filter((child) => child.start < sourceOut - TIME_EPSILON && child.end > sourceIn + TIME_EPSILON)
+    .flatMap((child): TimelineElement[] => {
+      const isHidden = hidden || !isTrackVisible(tracks, child.track);
+      const isMuted = muted || !isTrackAudible(tracks, child.track);
+      const clipped = trimElement(child, Math.max(child.start, sourceIn), Math.min(child.end, sourceOut));
+      const center = toParentCenter(clipped.x + clipped.width / 2, clipped.y + clipped.height / 2);
+      const mapped = {
+        ...clipped,
+        id: `${compound.id}/${child.id}`,
+        start: Math.min(toParent(clipped.start), toParent(clipped.end)),
+        end: Math.max(toParent(clipped.start), toParent(clipped.end)),
+        track: compound.track,
+        speed: (clipped.speed || 1) * (compound.speed || 1),
+        x: center.x - (clipped.width * scaleX) / 2,
+        y: center.y - (clipped.height * scaleY) / 2,
+        width: clipped.width * scaleX,
+        height: clipped.height * scaleY,
+        rotation: compound.rotation + clipped.rotation,
+      } as TimelineElement;
+      // A reversed compound plays its clips' speed ramps backwards too
+      if (isReversed(compound) && isAudibleElement(mapped) && mapped.content.speedRamp) {
+        mapped.content = { ...mapped.content, speedRamp: mirrorSpeedRamp(mapped.content.speedRamp) };
+      }
+
+      switch (mapped.type) {
+        case "compound":
+          return flattenCompound(mapped, isHidden, isMuted);
+        case "text":
+          return isHidden ? [] : [{ ...mapped, content: { ...mapped.content, fontSize: mapped.content.fontSize * scaleY } }];
+        case "image":
+          return isHidden ? [] : [mapped];
+        case "video":
+          if (isHidden) {
+            // Still heard, like a video on a hidden track
+            const { crop, ...sound }: VideoContent = mapped.content;
+            return [{ ...mapped, type: "audio", content: { ...sound, muted: sound.muted || isMuted } }];
+          }
+          return [{ ...mapped, content: { ...mapped.content, muted: mapped.content.muted || isMuted } }];
+        case "audio":
+          return [{ ...mapped, content: { ...mapped.content, muted: mapped.content.muted || isMuted } }];
+      }
+    });
+};
+
+// Replace compound clips with the elements inside them, recursively, so
+// they can be drawn, played and exported like any other elements
+export const flattenCompounds = (elements: TimelineElement[]): TimelineElement[] =>
+  elements.some((element) => element.type === "compound")
+    ? elements.flatMap((element) => (element.type === "compound" ? flattenCompound(element) : [element]))
+    : elements;
@@ -0,0 +1,506 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from "webm-muxer";
+import { Muxer as MP4Muxer, ArrayBufferTarget as MP4Target } from "mp4-muxer";
+import { AudibleElement, TimelineElement, Track, VideoElement, isAudibleElement } from "@/types/timeline";
+import { FrameSource, getVisibleElements, renderFrame } from "@/lib/compositor";
+import { getPlaybackRate, getSourceTime, getSpeedRamp, isReversed } from "@/lib/timeMapping";
+import { renderClipAudio } from "@/lib/clipAudio";
+import { isTrackAudible, isTrackVisible } from "@/lib/tracks";
+import { flattenCompounds } from "@/lib/compound";
+
+export type ExportFormat = "webm" | "mp4";
+
+export interface ExportOptions {
+  elements: TimelineElement[];
+  tracks?: Track[];
+  width: number;
+  height: number;
+  format?: ExportFormat;
+  fps?: number;
+  scale?: number;
+  background?: string;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface StillExportOptions {
+  elements: TimelineElement[];
+  tracks?: Track[];
+  width: number;
+  height: number;
+  time: number;
+  scale?: number;
+  background?: string;
+  mimeType?: "image/png" | "image/jpeg";
+}
+
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_CHUNK_FRAMES = 1024;
+const THUMBNAIL_WIDTH = 160;
+// A seek that takes longer than this is treated as failed
+const SEEK_TIMEOUT_MS = 10000;
+
+// WebCodecs codec strings for each container
+const FORMAT_CODECS = {
+  webm: { video: "vp09.00.10.08", audio: "opus" },
+  mp4: { video: "avc1.640028", audio: "mp4a.40.2" },
+} as const;
+
+export const MIME_TYPES: Record<ExportFormat, string> = {
+  webm: "video/webm",
+  mp4: "video/mp4",
+};
+
+// Check that the browser can encode video at all
+export const isExportSupported = () =>
+  typeof window !== "undefined" && "VideoEncoder" in window && "AudioEncoder" in window;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException("Export cancelled", "AbortError");
+  }
+};
+
+// Load a video or image so it can be drawn onto the export canvas
+export const loadSource = (element: TimelineElement): Promise<HTMLVideoElement | HTMLImageElement | null> => {
+  return new Promise((resolve) => {
+    if (element.type === "image") {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => resolve(null);
+      image.src = element.content.src;
+    } else if (element.type === "video") {
+      const video = document.createElement("video");
+      video.muted = true;
+      video.playsInline = true;
+      video.preload = "auto";
+      video.onloadeddata = () => resolve(video);
+      video.onerror = () => resolve(null);
+      video.src = element.content.src;
+    } else {
+      resolve(null);
+    }
+  });
+};
+
+// Seek a video and wait until the frame at that time is ready. Rejects if
+// the video errors, the seek stalls or `signal` is aborted.
+export const seekVideo = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const target = Math.max(0, Math.min(time, (video.duration || 0) - 0.001));
+    if (Math.abs(video.currentTime - target) < 0.001) {
+      resolve();
+      return;
+    }
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      video.removeEventListener("seeked", onSeeked);
+      video.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Could not seek the video"));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException("Export cancelled", "AbortError"));
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error("Seeking the video timed out"));
+    }, SEEK_TIMEOUT_MS);
+
+    video.addEventListener("seeked", onSeeked);
+    video.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+    video.currentTime = target;
+  });
+};
+
+// Load the media of every drawable element, keyed by element id
+const loadSources = async (elements: TimelineElement[], signal?: AbortSignal) => {
+  const sources = new Map<string, FrameSource>();
+  for (const element of elements) {
+    throwIfAborted(signal);
+    const source = await loadSource(element);
+    if (source) sources.set(element.id, source);
+  }
+  return sources;
+};
+
+const releaseSources = (sources: Map<string, FrameSource>) => {
+  sources.forEach((source) => {
+    if (source instanceof HTMLVideoElement) {
+      source.removeAttribute("src");
+      source.load();
+    }
+  });
+};
+
+// Bring every visible video to the right frame before drawing
+const seekVisibleVideos = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  sources: Map<string, FrameSource>,
+  time: number,
+  signal?: AbortSignal
+) =>
+  Promise.all(
+    getVisibleElements(elements, time, tracks)
+      .filter((el) => el.type === "video")
+      .map((element) => {
+        const video = sources.get(element.id);
+        return video instanceof HTMLVideoElement
+          ? seekVideo(video, getSourceTime(element, time), signal)
+          : Promise.resolve();
+      })
+  );
+
+// Decode the audio of one element, or null if it has none
+const decodeAudio = async (context: BaseAudioContext, src: string): Promise<AudioBuffer | null> => {
+  try {
+    const response = await fetch(src);
+    const data = await response.arrayBuffer();
+    return await context.decodeAudioData(data);
+  } catch (error) {
+    // Videos without an audio track fail to decode, which is fine
+    console.warn("Could not decode audio:", src, error);
+    return null;
+  }
+};
+
+// The sound of one clip, ready to play from its start at normal speed: the
+// part of the media it plays, reversed and retimed as needed. Clips at another
+// speed, or on a speed ramp, are retimed sample by sample so the sound
+// follows the picture exactly. Null if the media has no sound.
+export const renderElementAudio = async (context: BaseAudioContext, element: AudibleElement) => {
+  const buffer = await decodeAudio(context, element.content.src);
+  if (!buffer) return null;
+
+  const { sourceIn, sourceOut, preservePitch } = element.content;
+  const retimed = getPlaybackRate(element) !== 1 || getSpeedRamp(element) !== null;
+  const startTime = getSourceTime(element, element.start);
+  return renderClipAudio(context, buffer, {
+    sourceIn,
+    sourceOut,
+    reverse: isReversed(element),
+    duration: retimed ? element.end - element.start : undefined,
+    getSourceOffset: retimed
+      ? (time) => Math.abs(getSourceTime(element, element.start + time) - startTime)
+      : undefined,
+    preservePitch,
+  });
+};
+
+// Mix all audio and video sound into a single buffer covering the timeline
+const mixAudio = async (elements: TimelineElement[], tracks: Track[], duration: number, signal?: AbortSignal) => {
+  const context = new OfflineAudioContext(
+    AUDIO_CHANNELS,
+    Math.max(1, Math.ceil(duration * AUDIO_SAMPLE_RATE)),
+    AUDIO_SAMPLE_RATE
+  );
+
+  const audible = elements
+    .filter(isAudibleElement)
+    .filter((el) => !el.content.muted && el.content.volume !== 0 && isTrackAudible(tracks, el.track));
+
+  for (const element of audible) {
+    throwIfAborted(signal);
+    const buffer = await renderElementAudio(context, element);
+    if (!buffer) continue;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+
+    const gain = context.createGain();
+    gain.gain.value = element.content.volume ?? 1;
+    source.connect(gain).connect(context.destination);
+
+    source.start(element.start);
+  }
+
+  throwIfAborted(signal);
+  return context.startRendering();
+};
+
+// Feed the mixed audio to the encoder in small chunks
+const encodeAudio = (encoder: AudioEncoder, buffer: AudioBuffer) => {
+  for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset);
+    const data = new Float32Array(frames * buffer.numberOfChannels);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      data.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+    }
+
+    const audioData = new AudioData({
+      format: "f32-planar",
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: buffer.numberOfChannels,
+      timestamp: Math.round((offset / buffer.sampleRate) * 1e6),
+      data,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+};
+
+// Wait for the encoder queue to drain a bit so memory stays bounded
+const waitForEncoder = async (encoder: VideoEncoder) => {
+  while (encoder.encodeQueueSize > 8) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+// Render the timeline frame by frame and encode it into a video file
+export const exportVideo = async ({
+  elements: timelineElements,
+  tracks = [],
+  width,
+  height,
+  format = "webm",
+  fps = 30,
+  scale = 1,
+  background = "#000000",
+  onProgress,
+  signal,
+}: ExportOptions): Promise<Blob> => {
+  if (!isExportSupported()) {
+    throw new Error("Video export is not supported in this browser");
+  }
+
+  const duration = timelineElements.length > 0 ? Math.max(...timelineElements.map((el) => el.end)) : 0;
+  if (duration <= 0) {
+    throw new Error("The timeline is empty");
+  }
+  const elements = flattenCompounds(timelineElements);
+
+  // Encoders need even dimensions
+  const outputWidth = Math.round((width * scale) / 2) * 2;
+  const outputHeight = Math.round((height * scale) / 2) * 2;
+  const codecs = FORMAT_CODECS[format];
+
+  const videoConfig: VideoEncoderConfig = {
+    codec: codecs.video,
+    width: outputWidth,
+    height: outputHeight,
+    bitrate: 8_000_000,
+    framerate: fps,
+  };
+  const audioConfig: AudioEncoderConfig = {
+    codec: codecs.audio,
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels: AUDIO_CHANNELS,
+    bitrate: 128_000,
+  };
+
+  if (!(await VideoEncoder.isConfigSupported(videoConfig)).supported) {
+    throw new Error(`${format.toUpperCase()} video encoding is not supported in this browser`);
+  }
+  const hasAudioEncoder = (await AudioEncoder.isConfigSupported(audioConfig)).supported;
+
+  onProgress?.(0);
+
+  // Load media and mix sound before any frame is encoded
+  const sources = await loadSources(elements, signal);
+  const mixedAudio = hasAudioEncoder ? await mixAudio(elements, tracks, duration, signal) : null;
+  onProgress?.(0.05);
+
+  const muxer =
+    format === "mp4"
+      ? new MP4Muxer({
+          target: new MP4Target(),
+          video: { codec: "avc", width: outputWidth, height: outputHeight, frameRate: fps },
+          audio: mixedAudio
+            ? { codec: "aac", numberOfChannels: AUDIO_CHANNELS, sampleRate: AUDIO_SAMPLE_RATE }
+            : undefined,
+          fastStart: "in-memory",
+        })
+      : new WebMMuxer({
+          target: new WebMTarget(),
+          video: { codec: "V_VP9", width: outputWidth, height: outputHeight, frameRate: fps },
+          audio: mixedAudio
+            ? { codec: "A_OPUS", numberOfChannels: AUDIO_CHANNELS, sampleRate: AUDIO_SAMPLE_RATE }
+            : undefined,
+        });
+
+  let encoderError: Error | null = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  videoEncoder.configure(videoConfig);
+
+  const audioEncoder = mixedAudio
+    ? new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: (error) => {
+          encoderError = error;
+        },
+      })
+    : null;
+  audioEncoder?.configure(audioConfig);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Could not create a drawing context for export");
+  }
+  ctx.scale(outputWidth / width, outputHeight / height);
+
+  const closeEncoders = () => {
+    if (videoEncoder.state !== "closed") videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== "closed") audioEncoder.close();
+  };
+
+  try {
+    const totalFrames = Math.ceil(duration * fps);
+    const frameDuration = 1e6 / fps;
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      throwIfAborted(signal);
+      if (encoderError) throw encoderError;
+
+      const time = frame / fps;
+
+      await seekVisibleVideos(elements, tracks, sources, time, signal);
+      renderFrame(ctx, { elements, tracks, width, height, background }, time, (el) => sources.get(el.id));
+
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      videoEncoder.encode(videoFrame, { keyFrame: frame % (fps * 2) === 0 });
+      videoFrame.close();
+
+      await waitForEncoder(videoEncoder);
+      onProgress?.(0.05 + (frame / totalFrames) * 0.9);
+    }
+
+    if (audioEncoder && mixedAudio) {
+      encodeAudio(audioEncoder, mixedAudio);
+      await audioEncoder.flush();
+    }
+    await videoEncoder.flush();
+    if (encoderError) throw encoderError;
+
+    muxer.finalize();
+    onProgress?.(1);
+
+    return new Blob([muxer.target.buffer], { type: MIME_TYPES[format] });
+  } finally {
+    closeEncoders();
+    releaseSources(sources);
+  }
+};
+
+// Render a single frame of the timeline as an image
+export const exportStill = async ({
+  elements: timelineElements,
+  tracks = [],
+  width,
+  height,
+  time,
+  scale = 1,
+  background = "#000000",
+  mimeType = "image/png",
+}: StillExportOptions): Promise<Blob> => {
+  const elements = flattenCompounds(timelineElements);
+  const sources = await loadSources(getVisibleElements(elements, time, tracks));
+
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Could not create a drawing context for export");
+    }
+    ctx.scale(scale, scale);
+
+    await seekVisibleVideos(elements, tracks, sources, time);
+    renderFrame(ctx, { elements, tracks, width, height, background }, time, (el) => sources.get(el.id));
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), mimeType);
+    });
+  } finally {
+    releaseSources(sources);
+  }
+};
+
+// The frame a video clip shows at a timeline time, uncropped and at the
+// video's own size
+export const captureVideoFrame = async (element: VideoElement, time: number): Promise<Blob> => {
+  const video = await loadSource(element);
+  if (!(video instanceof HTMLVideoElement)) {
+    throw new Error("Could not load the video");
+  }
+
+  try {
+    await seekVideo(video, getSourceTime(element, time));
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Could not create a drawing context for the frame");
+    }
+    ctx.drawImage(video, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), "image/png");
+    });
+  } finally {
+    releaseSources(new Map([[element.id, video]]));
+  }
+};
+
+// Small JPEG data URL of the first frame with something on it
+export const renderThumbnail = async (elements: TimelineElement[], width: number, height: number, tracks: Track[] = []) => {
+  const visual = elements.filter((el) => el.type !== "audio" && isTrackVisible(tracks, el.track));
+  if (visual.length === 0) return undefined;
+
+  const blob = await exportStill({
+    elements,
+    tracks,
+    width,
+    height,
+    time: Math.min(...visual.map((el) => el.start)),
+    scale: THUMBNAIL_WIDTH / width,
+    mimeType: "image/jpeg",
+  });
+
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Save a blob through the browser's download dialog
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const downloadLink = document.createElement("a");
+  downloadLink.style.display = "none";
+  downloadLink.href = url;
+  downloadLink.download = fileName;
+
+  document.body.appendChild(downloadLink);
+  downloadLink.click();
+  document.body.removeChild(downloadLink);
+
+  setTimeout(() => URL.revokeObjectURL(url), 1500);
+};
@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from "uuid";
+import { Marker } from "@/types/timeline";
+
+export const MARKER_COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#3b82f6", "#a855f7", "#ec4899"];
+
+export type ChapterFormat = "youtube" | "webvtt";
+
+export interface Chapter {
+  start: number;
+  end: number;
+  title: string;
+}
+
+// YouTube only shows chapters when there are enough of them and none is too short
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+// Markers closer than this to a time count as being at it
+const MARKER_EPSILON = 0.001;
+
+// New markers are numbered and cycle through the colors
+export const createMarker = (time: number, markers: Marker[]): Marker => ({
+  id: uuidv4(),
+  time,
+  name: `Marker ${markers.length + 1}`,
+  color: MARKER_COLORS[markers.length % MARKER_COLORS.length],
+  notes: "",
+});
+
+export const sortMarkers = (markers: Marker[]) => [...markers].sort((a, b) => a.time - b.time);
+
+// The closest marker after (direction 1) or before (direction -1) `time`
+export const findAdjacentMarker = (markers: Marker[], time: number, direction: 1 | -1) => {
+  const sorted = sortMarkers(markers);
+  return direction === 1
+    ? sorted.find((marker) => marker.time > time + MARKER_EPSILON)
+    : sorted.reverse().find((marker) => marker.time < time - MARKER_EPSILON);
+};
+
+// Each marker starts a chapter that runs to the next one. Chapters must
+// start at 0:00, so an "Intro" chapter is added when no marker is there.
+export const getChapters = (markers: Marker[], duration: number): Chapter[] => {
+  const starts = sortMarkers(markers)
+    .filter((marker) => marker.time < duration)
+    .map((marker) => ({ start: marker.time, title: marker.name.trim() || "Untitled" }));
+  if (starts.length === 0) return [];
+  if (starts[0].start > MARKER_EPSILON) starts.unshift({ start: 0, title: "Intro" });
+  else starts[0].start = 0;
+
+  return starts.map((chapter, index) => ({
+    ...chapter,
+    end: index + 1 < starts.length ? starts[index + 1].start : duration,
+  }));
+};
+
+// Why YouTube would ignore these chapters, if it would
+export const getYouTubeChapterIssues = (chapters: Chapter[]) => {
+  const issues: string[] = [];
+  if (chapters.length < YOUTUBE_MIN_CHAPTERS) {
+    issues.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters`);
+  }
+  chapters
+    .filter((chapter) => chapter.end - chapter.start < YOUTUBE_MIN_CHAPTER_SECONDS)
+    .forEach((chapter) => issues.push(`'${chapter.title}' is shorter than ${YOUTUBE_MIN_CHAPTER_SECONDS} seconds`));
+  return issues;
+};
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+
+// "1:05" or "1:02:05", as YouTube expects in a description
+const formatYouTubeTime = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(total % 60)}`
+    : `${minutes}:${pad(total % 60)}`;
+};
+
+// "00:01:05.250"
+const formatVttTime = (seconds: number) => {
+  const millis = Math.round(seconds * 1000);
+  const hours = Math.floor(millis / 3600000);
+  const minutes = Math.floor((millis % 3600000) / 60000);
+  const secs = Math.floor((millis % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(millis % 1000, 3)}`;
+};
+
+// One "0:00 Title" line per chapter
+export const formatYouTubeChapters = (chapters: Chapter[]) =>
+  chapters.map((chapter) => `${formatYouTubeTime(chapter.start)} ${chapter.title}`).join("\n");
+
+// A WebVTT file with one numbered cue per chapter. Cue text can't hold
+// line breaks or the "-->" separator.
+export const formatWebVttChapters = (chapters: Chapter[]) =>
+  [
+    "WEBVTT",
+    ...chapters.map((chapter, index) =>
+      [
+        String(index + 1),
+        `${formatVttTime(chapter.start)} --> ${formatVttTime(chapter.end)}`,
+        chapter.title.replace(/\s*\n\s*/g, " ").replace(/-->/g, "->"),
+      ].join("\n")
+    ),
+  ].join("\n\n") + "\n";
@@ -0,0 +1,91 @@
+/*
+ * Imported media files live in IndexedDB as Blobs, keyed by media id.
+ * Elements and media items reference that id; their `src`/`url` object URLs
+ * only live for the current page and are recreated from the stored Blobs
+ * when a project is opened.
+ */
+
+const DB_NAME = "reelcraft_media";
+const DB_VERSION = 1;
+const STORE_NAME = "media";
+
+// Object URLs already created this session, by media id
+const mediaUrls = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Store an imported file and return an object URL for it
+export const storeMedia = async (id: string, blob: Blob) => {
+  await runRequest("readwrite", (store) => store.put(blob, id));
+  const url = URL.createObjectURL(blob);
+  mediaUrls.set(id, url);
+  return url;
+};
+
+// The stored file for a media id, or null if it isn't in the store
+export const getMediaBlob = async (id: string) =>
+  (await runRequest<Blob | undefined>("readonly", (store) => store.get(id))) ?? null;
+
+// Object URL for a stored media file, or null if it isn't in the store
+export const getMediaUrl = async (id: string) => {
+  const cached = mediaUrls.get(id);
+  if (cached) return cached;
+
+  const blob = await getMediaBlob(id);
+  if (!blob) return null;
+
+  const url = URL.createObjectURL(blob);
+  mediaUrls.set(id, url);
+  return url;
+};
+
+export const deleteMedia = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    ids.forEach((id) => store.delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  ids.forEach((id) => {
+    const url = mediaUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    mediaUrls.delete(id);
+  });
+};
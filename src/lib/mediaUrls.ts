@@ -0,0 +1,99 @@
+import {
+  AudioContent,
+  AudioElement,
+  CompoundContent,
+  CompoundElement,
+  ImageContent,
+  ImageElement,
+  MediaElement,
+  TextElement,
+  TimelineElement,
+  VideoContent,
+  VideoElement,
+  isMediaElement,
+} from "@/types/timeline";
+import { MediaItem } from "@/types/media";
+import { getMediaUrl } from "@/lib/mediaStore";
+import { getNestedElements, mapNestedElements } from "@/lib/compound";
+
+/*
+ * Object URLs in saved elements
+ *
+ * Media elements and media items carry object URLs (`content.src`, `url`)
+ * that only work in the session that created them. Project files and the
+ * clipboard leave them out and reference media by id; reading them back
+ * recreates the URLs from the media store (see src/lib/mediaStore.ts).
+ */
+
+type WithContent<E extends TimelineElement, C> = Omit<E, "content"> & { content: C };
+
+interface SerializedCompoundContent extends Omit<CompoundContent, "elements"> {
+  elements: SerializedElement[];
+}
+
+// An element as it's written out, at any depth
+export type SerializedElement =
+  | WithContent<VideoElement, Omit<VideoContent, "src">>
+  | WithContent<ImageElement, Omit<ImageContent, "src">>
+  | WithContent<AudioElement, Omit<AudioContent, "src">>
+  | TextElement
+  | WithContent<CompoundElement, SerializedCompoundContent>;
+
+export type SerializedMediaItem = Omit<MediaItem, "url">;
+
+const withoutSrc = <C extends { src: string }>({ src, ...content }: C): Omit<C, "src"> => content;
+
+export const serializeElements = (elements: TimelineElement[]): SerializedElement[] =>
+  elements.map((element): SerializedElement => {
+    switch (element.type) {
+      case "video":
+        return { ...element, content: withoutSrc(element.content) };
+      case "image":
+        return { ...element, content: withoutSrc(element.content) };
+      case "audio":
+        return { ...element, content: withoutSrc(element.content) };
+      case "compound":
+        return { ...element, content: { ...element.content, elements: serializeElements(element.content.elements) } };
+      default:
+        return element;
+    }
+  });
+
+export const serializeMediaItems = (mediaItems: MediaItem[]): SerializedMediaItem[] =>
+  mediaItems.map(({ url, ...item }) => item);
+
+const withSrc = <E extends MediaElement>(element: E, src: string): E => ({
+  ...element,
+  content: { ...element.content, src },
+});
+
+// Recreate object URLs for elements and media items that were read back.
+// Media missing from the store gets an empty URL, and the names of the
+// elements and items that use it are returned in `missing`.
+export const restoreMediaUrls = async (elements: TimelineElement[], mediaItems: MediaItem[]) => {
+  const mediaIds = new Set(mediaItems.map((item) => item.id));
+  getNestedElements(elements).forEach((element) => {
+    if (isMediaElement(element)) mediaIds.add(element.content.mediaId);
+  });
+  const urls = new Map<string, string | null>();
+  await Promise.all(
+    [...mediaIds].map(async (mediaId) => {
+      urls.set(mediaId, await getMediaUrl(mediaId).catch(() => null));
+    })
+  );
+
+  const missing = new Set<string>();
+  const restoredItems = mediaItems.map((item): MediaItem => {
+    const url = urls.get(item.id);
+    if (!url) missing.add(item.name);
+    return { ...item, url: url ?? "" };
+  });
+  const restoredElements = mapNestedElements(elements, (element): TimelineElement => {
+    if (!isMediaElement(element)) return element;
+    const src = urls.get(element.content.mediaId);
+    if (!src) missing.add(element.name);
+    return withSrc(element, src ?? "");
+  });
+
+  return { elements: restoredElements, mediaItems: restoredItems, missing: [...missing] };
+};
@@ -0,0 +1,69 @@
+import { VideoElement, TimelineElement } from "@/types/timeline";
+import { exportVideo, loadSource } from "@/lib/exporter";
+
+export interface MergeOptions {
+  // Browsers don't tell a video's frame rate, so it's chosen; 30 by default
+  fps?: number;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Merged videos are rendered at the first clip's size, or this when it can't be read
+const FALLBACK_SIZE = { width: 1280, height: 720 };
+
+// Video clips in the order they're joined: by start, then top track first
+export const getMergeOrder = (elements: TimelineElement[]) =>
+  elements
+    .filter((el): el is VideoElement => el.type === "video")
+    .sort((a, b) => a.start - b.start || a.track - b.track);
+
+// Clips closer than this count as touching
+const MERGE_EPSILON = 0.001;
+
+// Why the clips can't be merged, or null if they can. The merged clip takes
+// their place exactly, so they must sit end to end on one track.
+export const getMergeError = (videos: VideoElement[]) => {
+  if (videos.length < 2) return "Select at least two videos to merge";
+  if (videos.some((video) => video.track !== videos[0].track)) return "Only clips on the same track can be merged";
+  const hasGap = videos.some((video, i) => i > 0 && Math.abs(video.start - videos[i - 1].end) > MERGE_EPSILON);
+  return hasGap ? "Only clips that follow each other without gaps can be merged" : null;
+};
+
+// Pixel size of the part of a clip's video that shows, after cropping
+const getCroppedVideoSize = async (element: VideoElement) => {
+  const video = await loadSource(element);
+  if (!(video instanceof HTMLVideoElement) || !video.videoWidth) return FALLBACK_SIZE;
+
+  const crop = element.content.crop;
+  const width = crop ? (video.videoWidth * crop.width) / 100 : video.videoWidth;
+  const height = crop ? (video.videoHeight * crop.height) / 100 : video.videoHeight;
+  video.removeAttribute("src");
+  video.load();
+  return { width: Math.round(width), height: Math.round(height) };
+};
+
+// Lay clips end to end from 0, each filling a frame of the given size. Trims,
+// speeds, crops and volumes are kept; the clips' boxes on the canvas aren't.
+export const layOutForMerge = (videos: VideoElement[], width: number, height: number): VideoElement[] => {
+  let time = 0;
+  return videos.map((video) => {
+    const length = video.end - video.start;
+    const placed = { ...video, start: time, end: time + length, track: 0, x: 0, y: 0, width, height, rotation: 0 };
+    time += length;
+    return placed;
+  });
+};
+
+// Render video clips one after another into a new WebM file at `fps`
+export const renderMergedVideo = async (videos: VideoElement[], { fps = 30, onProgress, signal }: MergeOptions = {}) => {
+  const { width, height } = await getCroppedVideoSize(videos[0]);
+  return exportVideo({
+    elements: layOutForMerge(videos, width, height),
+    width,
+    height,
+    format: "webm",
+    fps,
+    onProgress,
+    signal,
+  });
+};
@@ -0,0 +1,150 @@
+import { unzip, zip, strFromU8, strToU8, Unzipped, AsyncZippable } from "fflate";
+import { v4 as uuidv4 } from "uuid";
+import { ProjectFile, ProjectFileError, getProjectMediaIds, parseProjectFile, serializeProjectFile } from "@/lib/projectFile";
+import { getMediaBlob, storeMedia } from "@/lib/mediaStore";
+import { listProjects, writeProject } from "@/lib/projectStorage";
+import { isMediaElement } from "@/types/timeline";
+import { getNestedElements } from "@/lib/compound";
+
+/*
+ * Project bundles (.reel)
+ *
+ * A bundle is a zip archive that carries a project between machines:
+ *
+ *   manifest.json   { format: "reelcraft-bundle", version, media: { [mediaId]: { type } } }
+ *   project.json    the project file (see src/lib/projectFile.ts)
+ *   media/<mediaId> every media file the project references
+ *
+ * Media files are stored uncompressed since video, audio and images are
+ * already compressed.
+ */
+
+export const BUNDLE_EXTENSION = ".reel";
+export const BUNDLE_MIME_TYPE = "application/zip";
+
+const BUNDLE_FORMAT = "reelcraft-bundle";
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = "manifest.json";
+const PROJECT_PATH = "project.json";
+const MEDIA_DIR = "media/";
+
+interface BundleManifest {
+  format: string;
+  version: number;
+  media: Record<string, { type: string }>;
+}
+
+export interface BundleExportResult {
+  blob: Blob;
+  // Names of media that couldn't be found and were left out
+  missing: string[];
+}
+
+export interface BundleImportResult {
+  project: ProjectFile;
+  // Problems worth telling the user about, e.g. renamed projects or missing media
+  warnings: string[];
+}
+
+const zipAsync = (files: AsyncZippable) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Unzipped>((resolve, reject) => {
+    unzip(data, (error, files) => (error ? reject(error) : resolve(files)));
+  });
+
+// Display name of a media id, for reporting
+const getMediaName = (project: ProjectFile, mediaId: string) =>
+  project.mediaItems.find((item) => item.id === mediaId)?.name ??
+  getNestedElements(project.elements).find((el) => isMediaElement(el) && el.content.mediaId === mediaId)?.name ??
+  mediaId;
+
+// Pack a project and all of its stored media into a bundle
+export const exportProjectBundle = async (project: ProjectFile): Promise<BundleExportResult> => {
+  const manifest: BundleManifest = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, media: {} };
+  const files: AsyncZippable = {};
+  const missing: string[] = [];
+
+  for (const mediaId of getProjectMediaIds(project)) {
+    const blob = await getMediaBlob(mediaId);
+    if (!blob) {
+      missing.push(getMediaName(project, mediaId));
+      continue;
+    }
+    manifest.media[mediaId] = { type: blob.type };
+    files[`${MEDIA_DIR}${mediaId}`] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+  }
+
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest));
+  files[PROJECT_PATH] = strToU8(serializeProjectFile(project));
+
+  const data = await zipAsync(files);
+  return { blob: new Blob([data], { type: BUNDLE_MIME_TYPE }), missing };
+};
+
+// A project name that no saved project uses yet
+const getUniqueProjectName = (name: string) => {
+  const taken = new Set(listProjects().map((project) => project.name));
+  if (!taken.has(name)) return name;
+
+  let index = 2;
+  while (taken.has(`${name} (${index})`)) index++;
+  return `${name} (${index})`;
+};
+
+// Unpack a bundle into a new saved project with its media in the media store
+export const importProjectBundle = async (file: Blob): Promise<BundleImportResult> => {
+  let files: Unzipped;
+  try {
+    files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new ProjectFileError("This file is not a project bundle");
+  }
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+  } catch {
+    throw new ProjectFileError("Project bundle has no readable manifest");
+  }
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new ProjectFileError("This file is not a project bundle");
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new ProjectFileError("This bundle was made by a newer version of the editor");
+  }
+  if (!files[PROJECT_PATH]) {
+    throw new ProjectFileError("Project bundle does not contain a project");
+  }
+
+  const bundled = parseProjectFile(strFromU8(files[PROJECT_PATH]));
+  const warnings: string[] = [];
+
+  const name = getUniqueProjectName(bundled.name);
+  if (name !== bundled.name) {
+    warnings.push(`A project named "${bundled.name}" already exists, so this one was imported as "${name}"`);
+  }
+
+  const missing: string[] = [];
+  for (const mediaId of getProjectMediaIds(bundled)) {
+    const data = files[`${MEDIA_DIR}${mediaId}`];
+    if (!data) {
+      missing.push(getMediaName(bundled, mediaId));
+      continue;
+    }
+    await storeMedia(mediaId, new Blob([data], { type: manifest.media?.[mediaId]?.type ?? "" }));
+  }
+  if (missing.length > 0) {
+    warnings.push(`Missing from the bundle: ${missing.join(", ")}`);
+  }
+
+  // Imports always become a new project, even when the original is saved here
+  const now = new Date().toISOString();
+  const project: ProjectFile = { ...bundled, id: uuidv4(), name, createdAt: now, savedAt: now };
+  writeProject(project);
+
+  return { project, warnings };
+};
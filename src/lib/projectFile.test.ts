@@ -0,0 +1,276 @@
+import { describe, expect, it } from "vitest";
+import { AudioElement, CompoundElement, TextElement, VideoElement } from "@/types/timeline";
+import { MediaItem } from "@/types/media";
+import { createDefaultTracks } from "@/lib/tracks";
+import {
+  PROJECT_FILE_VERSION,
+  ProjectFile,
+  ProjectFileError,
+  createProjectFile,
+  getProjectSignature,
+  parseProjectFile,
+  serializeProjectFile,
+} from "@/lib/projectFile";
+import v1 from "./__fixtures__/project-v1.json?raw";
+import v2 from "./__fixtures__/project-v2.json?raw";
+import v3 from "./__fixtures__/project-v3.json?raw";
+import v4 from "./__fixtures__/project-v4.json?raw";
+import v5 from "./__fixtures__/project-v5.json?raw";
+import v6 from "./__fixtures__/project-v6.json?raw";
+import v7 from "./__fixtures__/project-v7.json?raw";
+import v8 from "./__fixtures__/project-v8.json?raw";
+import v9 from "./__fixtures__/project-v9.json?raw";
+import v10 from "./__fixtures__/project-v10.json?raw";
+
+const video: VideoElement = {
+  id: "video-1",
+  type: "video",
+  name: "clip.mp4",
+  start: 0,
+  end: 4,
+  track: 0,
+  x: 0,
+  y: 0,
+  width: 1920,
+  height: 1080,
+  rotation: 0,
+  speed: 1,
+  content: {
+    mediaId: "media-1",
+    src: "blob:video",
+    sourceIn: 1,
+    sourceOut: 5,
+    originalDuration: 10,
+    volume: 0.5,
+    muted: false,
+    preservePitch: true,
+  },
+};
+
+const title: TextElement = {
+  id: "text-1",
+  type: "text",
+  name: "Title",
+  start: 1,
+  end: 3,
+  track: 1,
+  x: 100,
+  y: 100,
+  width: 400,
+  height: 80,
+  rotation: 0,
+  speed: 1,
+  content: {
+    text: "Hello",
+    fontSize: 48,
+    fontWeight: "bold",
+    fontStyle: "normal",
+    color: "#ffffff",
+    alignment: "center",
+  },
+};
+
+const mediaItem: MediaItem = {
+  id: "media-1",
+  name: "clip.mp4",
+  type: "video",
+  url: "blob:video",
+  thumbnail: "data:image/png;base64,AAAA",
+  duration: 10,
+};
+
+// Built the way the editor builds the project it compares against the saved one
+const buildProject = (project: Omit<ProjectFile, "version" | "savedAt">) =>
+  createProjectFile({
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    thumbnail: project.thumbnail,
+    settings: project.settings,
+    tracks: project.tracks,
+    markers: project.markers,
+    elements: project.elements,
+    mediaItems: project.mediaItems,
+  });
+
+const createProject = () =>
+  buildProject({
+    id: "project-1",
+    name: "Trip",
+    createdAt: "2024-05-01T10:00:00.000Z",
+    thumbnail: "data:image/png;base64,BBBB",
+    settings: { canvasWidth: 1920, canvasHeight: 1080, aspectRatio: "16:9" },
+    tracks: createDefaultTracks(),
+    markers: [{ id: "marker-1", time: 2, name: "Cut", color: "#ff0000", notes: "" }],
+    elements: [video, title],
+    mediaItems: [mediaItem],
+  });
+
+describe("getProjectSignature", () => {
+  it("matches a project after it is saved and opened again", () => {
+    const project = createProject();
+    const opened = parseProjectFile(serializeProjectFile(project));
+
+    expect(getProjectSignature(buildProject(opened))).toBe(getProjectSignature(project));
+    expect(getProjectSignature(opened)).toBe(getProjectSignature(project));
+  });
+
+  it("ignores save times, thumbnails and object URLs", () => {
+    const project = createProject();
+    const resaved: ProjectFile = {
+      ...project,
+      savedAt: "2025-01-01T00:00:00.000Z",
+      thumbnail: undefined,
+      mediaItems: [{ ...mediaItem, url: "blob:other" }],
+      elements: [{ ...video, content: { ...video.content, src: "blob:other" } }, title],
+    };
+
+    expect(getProjectSignature(resaved)).toBe(getProjectSignature(project));
+  });
+
+  it("changes when an element is edited", () => {
+    const project = createProject();
+    const edited: ProjectFile = { ...project, elements: [{ ...video, end: 3 }, title] };
+
+    expect(getProjectSignature(edited)).not.toBe(getProjectSignature(project));
+  });
+});
+
+describe("parseProjectFile", () => {
+  // Files saved by each version of the editor
+  const fixtures = [v1, v2, v3, v4, v5, v6, v7, v8, v9, v10];
+
+  it.each(fixtures.map((fixture, i) => [i + 1, fixture]))("reads version %i files", (_, fixture) => {
+    const project = parseProjectFile(fixture, "fallback");
+
+    expect(project.version).toBe(PROJECT_FILE_VERSION);
+    expect(project.elements.every((element) => element.track < project.tracks.length)).toBe(true);
+  });
+
+  it("migrates version 1: ids, settings, text and media content", () => {
+    const project = parseProjectFile(v1, "legacy");
+    const [video, text] = project.elements as [VideoElement, TextElement];
+
+    expect(project).toMatchObject({
+      id: "legacy",
+      name: "Holiday",
+      createdAt: "2023-01-01T10:00:00.000Z",
+      settings: { canvasWidth: 1280, canvasHeight: 720, aspectRatio: "16:9" },
+      markers: [],
+    });
+    expect(text.content).toEqual({
+      text: "Hello",
+      fontSize: 32,
+      fontWeight: "bold",
+      fontStyle: "normal",
+      color: "#ffffff",
+      alignment: "center",
+    });
+    expect(video.speed).toBe(1);
+    expect(video.content).toEqual({
+      mediaId: "media-1",
+      src: "",
+      sourceIn: 0,
+      sourceOut: 4,
+      originalDuration: 8,
+      volume: 1,
+      muted: false,
+      preservePitch: true,
+    });
+    expect(project.mediaItems[0].url).toBe("");
+  });
+
+  it("migrates version 2: media is referenced by id and plays from its start", () => {
+    const [video] = parseProjectFile(v2).elements as [VideoElement];
+
+    expect(video.content).toMatchObject({ mediaId: "media-1", sourceIn: 0, sourceOut: 6, originalDuration: 8, volume: 0.5 });
+  });
+
+  it("migrates version 3: source ranges come from the media duration", () => {
+    const [audio] = parseProjectFile(v3).elements as [AudioElement];
+
+    expect(audio.content).toMatchObject({ sourceIn: 0, sourceOut: 10, originalDuration: 30 });
+  });
+
+  it("migrates version 4: the fixed track layout, with more tracks for clips further down", () => {
+    const project = parseProjectFile(v4);
+
+    expect(project.tracks.map((track) => [track.name, track.kind])).toEqual([
+      ["Video 1", "visual"],
+      ["Video 2", "visual"],
+      ["Audio 1", "audio"],
+      ["Video 3", "visual"],
+      ["Video 4", "visual"],
+    ]);
+    expect(project.tracks.every((track) => !track.locked && !track.magnetic)).toBe(true);
+  });
+
+  it("migrates versions 5 and 6: no markers and no magnetic tracks", () => {
+    expect(parseProjectFile(v5).markers).toEqual([]);
+    const project = parseProjectFile(v6);
+    expect(project.markers).toHaveLength(1);
+    expect(project.tracks[0]).toMatchObject({ height: 60, locked: true, magnetic: false });
+  });
+
+  it("migrates versions 7 and 8: clips keep their pitch, also inside compound clips", () => {
+    const project = parseProjectFile(v7);
+    expect(project.tracks[0].magnetic).toBe(true);
+    expect((project.elements[0] as VideoElement).content).toMatchObject({ muted: true, preservePitch: true });
+
+    const [compound] = parseProjectFile(v8).elements as [CompoundElement];
+    expect((compound.content.elements[0] as VideoElement).content.preservePitch).toBe(true);
+  });
+
+  it("migrates version 9: reversed clips stay reversed, without a speed ramp", () => {
+    const [audio] = parseProjectFile(v9).elements as [AudioElement];
+
+    expect(audio.speed).toBe(-1);
+    expect(audio.content.preservePitch).toBe(false);
+    expect(audio.content.speedRamp).toBeUndefined();
+  });
+
+  it("reads version 10 speed ramps", () => {
+    const [audio] = parseProjectFile(v10).elements as [AudioElement];
+
+    expect(audio.content.speedRamp).toEqual([
+      { position: 0, speed: 1 },
+      { position: 0.5, speed: 2 },
+      { position: 1, speed: 1 },
+    ]);
+  });
+
+  const current = () => JSON.parse(v10);
+
+  it.each<[string, unknown, string]>([
+    ["text that isn't JSON", "{ not json", "Project file is not valid JSON"],
+    ["JSON that isn't a project", "[1, 2]", "Project file does not contain a project"],
+    ["an unknown version", '{ "version": "2" }', "Unknown project file version: 2"],
+    [
+      "a newer version",
+      JSON.stringify({ ...current(), version: PROJECT_FILE_VERSION + 1 }),
+      `This project was saved by a newer version of the editor (file version ${PROJECT_FILE_VERSION + 1}, ` +
+        `supported up to ${PROJECT_FILE_VERSION})`,
+    ],
+  ])("rejects %s", (_, input, message) => {
+    expect(() => parseProjectFile(input)).toThrow(new ProjectFileError(message));
+  });
+
+  it("names the fields that don't match the schema", () => {
+    const project = current();
+    project.elements[0].end = -1;
+    project.elements[0].track = 3;
+
+    expect(() => parseProjectFile(project)).toThrow(ProjectFileError);
+    expect(() => parseProjectFile(project)).toThrow(/Project file is invalid:\nelements\.0\.end: /);
+    expect(() => parseProjectFile(project)).toThrow(/elements\.0\.track: Track 3 does not exist/);
+  });
+
+  it("rejects source ranges outside the media", () => {
+    const project = current();
+    project.elements[0].content.sourceOut = 40;
+
+    expect(() => parseProjectFile(project)).toThrow(
+      "elements.0.content.sourceOut: Source out-point must be after the in-point and within the media"
+    );
+  });
+});
@@ -0,0 +1,536 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { Marker, TimelineElement, Track, isMediaElement } from "@/types/timeline";
+import { MediaItem } from "@/types/media";
+import { DEFAULT_TRACK_HEIGHT, MAX_TRACK_HEIGHT, MIN_TRACK_HEIGHT } from "@/lib/tracks";
+import { getNestedElements } from "@/lib/compound";
+import { serializeElements, serializeMediaItems } from "@/lib/mediaUrls";
+
+/*
+ * Project file format
+ *
+ * Projects are stored as JSON under `reelcraft_project_<id>` in localStorage.
+ * Every file carries a `version` number. Version history:
+ *
+ *   1  Unversioned blob written by the first editor releases:
+ *      { name, elements, mediaItems, canvasWidth, canvasHeight, aspectRatio, savedAt }.
+ *      Text elements kept their text at `content.content`, and trims left
+ *      `trimStart`/`trimEnd` inside `content`.
+ *   2  Adds `version`, `id` and `createdAt`, groups canvas size under
+ *      `settings`, and stores elements in the typed content model
+ *      (see src/types/timeline.ts). An optional `thumbnail` data URL is
+ *      shown in the project browser.
+ *   3  Media content and media items reference the stored file by id
+ *      (`content.mediaId`, `mediaItems[].id`) instead of saving the
+ *      session-only object URLs; `src` and `url` are left out of the file
+ *      and recreated from the media store when the project is opened.
+ *   4  Video and audio content carry the part of the media they play:
+ *      `sourceIn`, `sourceOut` and the media's `originalDuration`, all in
+ *      source seconds. Earlier files always played from the media start.
+ *   5  Adds the `tracks` list (see Track in src/types/timeline.ts). An
+ *      element's `track` is an index into it. Earlier files get the fixed
+ *      layout they were made with: two visual tracks above one audio track.
+ *   6  Adds `markers` (see Marker in src/types/timeline.ts): named, colored
+ *      points on the timeline with notes. Earlier files have none.
+ *   7  Tracks gain `magnetic`; clips on a magnetic track sit end to end.
+ *      Earlier tracks aren't magnetic.
+ *   8  Adds compound elements (`type: "compound"`). Their content is a
+ *      nested sequence with its own `elements` and `tracks`, laid out on a
+ *      `width` x `height` canvas, plus the source range of it that plays.
+ *      Media inside compound elements is stored like top level media.
+ *   9  Speed may be negative, which plays an element backwards, and video
+ *      and audio content gain `preservePitch`. Earlier clips keep their
+ *      pitch, like browsers do by default.
+ *  10  Video and audio content may carry a `speedRamp` (see
+ *      src/lib/speedRamp.ts): keyframed speed over the clip. Earlier clips
+ *      play at a constant speed.
+ *
+ * Files from older versions are migrated forward one version at a time when
+ * they are loaded. Files from a newer editor, or files that don't match the
+ * schema, are rejected with a ProjectFileError.
+ */
+
+export const PROJECT_FILE_VERSION = 10;
+export const PROJECT_KEY_PREFIX = "reelcraft_project_";
+
+export const getProjectKey = (id: string) => `${PROJECT_KEY_PREFIX}${id}`;
+
+export interface ProjectSettings {
+  canvasWidth: number;
+  canvasHeight: number;
+  aspectRatio: string;
+}
+
+export interface ProjectFile {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  savedAt: string;
+  thumbnail?: string;
+  settings: ProjectSettings;
+  tracks: Track[];
+  markers: Marker[];
+  elements: TimelineElement[];
+  mediaItems: MediaItem[];
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+const cropSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+// Object URLs aren't saved; they are filled in when the media is restored
+const objectUrlSchema = z.string().default("");
+
+const sourceRangeShape = {
+  sourceIn: z.number().min(0),
+  sourceOut: z.number().positive(),
+  originalDuration: z.number().positive(),
+};
+
+// Allow for rounding when comparing source times
+const SOURCE_EPSILON = 0.001;
+
+const isValidSourceRange = (range: { sourceIn: number; sourceOut: number; originalDuration: number }) =>
+  range.sourceOut > range.sourceIn && range.sourceOut <= range.originalDuration + SOURCE_EPSILON;
+
+const sourceRangeError = {
+  message: "Source out-point must be after the in-point and within the media",
+  path: ["sourceOut"],
+};
+
+const speedRampSchema = z
+  .array(z.object({ position: z.number().min(0).max(1), speed: z.number().positive() }))
+  .min(2)
+  .refine(
+    (keyframes) =>
+      keyframes[0].position === 0 &&
+      keyframes[keyframes.length - 1].position === 1 &&
+      keyframes.every((keyframe, i) => i === 0 || keyframe.position >= keyframes[i - 1].position),
+    "Speed ramp must run from 0 to 1 in order"
+  );
+
+const trackSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  kind: z.enum(["visual", "audio"]),
+  height: z.number().min(MIN_TRACK_HEIGHT).max(MAX_TRACK_HEIGHT),
+  locked: z.boolean(),
+  hidden: z.boolean(),
+  muted: z.boolean(),
+  solo: z.boolean(),
+  magnetic: z.boolean(),
+});
+
+const baseElementSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  start: z.number().min(0),
+  end: z.number().min(0),
+  track: z.number().int().min(0),
+  thumbnail: z.string().optional(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  rotation: z.number(),
+  // Negative speeds play backwards
+  speed: z.number().refine((speed) => speed !== 0, "Speed can't be 0"),
+});
+
+export const elementSchema = z
+  .discriminatedUnion("type", [
+    baseElementSchema.extend({
+      type: z.literal("video"),
+      content: z.object({
+        mediaId: z.string().min(1),
+        src: objectUrlSchema,
+        ...sourceRangeShape,
+        volume: z.number().min(0).max(1),
+        muted: z.boolean(),
+        preservePitch: z.boolean(),
+        speedRamp: speedRampSchema.optional(),
+        crop: cropSchema.optional(),
+      }).refine(isValidSourceRange, sourceRangeError),
+    }),
+    baseElementSchema.extend({
+      type: z.literal("image"),
+      content: z.object({
+        mediaId: z.string().min(1),
+        src: objectUrlSchema,
+        crop: cropSchema.optional(),
+      }),
+    }),
+    baseElementSchema.extend({
+      type: z.literal("text"),
+      content: z.object({
+        text: z.string(),
+        fontSize: z.number().positive(),
+        fontWeight: z.enum(["normal", "bold"]),
+        fontStyle: z.enum(["normal", "italic"]),
+        color: z.string(),
+        alignment: z.enum(["left", "center", "right"]),
+      }),
+    }),
+    baseElementSchema.extend({
+      type: z.literal("audio"),
+      content: z.object({
+        mediaId: z.string().min(1),
+        src: objectUrlSchema,
+        ...sourceRangeShape,
+        volume: z.number().min(0).max(1),
+        muted: z.boolean(),
+        preservePitch: z.boolean(),
+        speedRamp: speedRampSchema.optional(),
+      }).refine(isValidSourceRange, sourceRangeError),
+    }),
+    baseElementSchema.extend({
+      type: z.literal("compound"),
+      content: z.object({
+        elements: z.array(z.lazy((): z.ZodTypeAny => elementSchema)),
+        tracks: z.array(trackSchema).min(1),
+        width: z.number().positive(),
+        height: z.number().positive(),
+        ...sourceRangeShape,
+      })
+        .refine(isValidSourceRange, sourceRangeError)
+        .refine((content) => content.elements.every((element) => element.track < content.tracks.length), {
+          message: "Nested element is on a track that does not exist",
+          path: ["elements"],
+        }),
+    }),
+  ])
+  .refine((element) => element.end > element.start, {
+    message: "Element must end after it starts",
+    path: ["end"],
+  });
+
+const markerSchema = z.object({
+  id: z.string().min(1),
+  time: z.number().min(0),
+  name: z.string(),
+  color: z.string(),
+  notes: z.string(),
+});
+
+export const mediaItemSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(["image", "video", "audio"]),
+  url: objectUrlSchema,
+  thumbnail: z.string(),
+  duration: z.number().optional(),
+});
+
+const projectFileSchema = z
+  .object({
+    version: z.literal(PROJECT_FILE_VERSION),
+    id: z.string().min(1),
+    name: z.string(),
+    createdAt: z.string().datetime(),
+    savedAt: z.string().datetime(),
+    thumbnail: z.string().optional(),
+    settings: z.object({
+      canvasWidth: z.number().int().positive(),
+      canvasHeight: z.number().int().positive(),
+      aspectRatio: z.string(),
+    }),
+    tracks: z.array(trackSchema).min(1),
+    markers: z.array(markerSchema),
+    elements: z.array(elementSchema),
+    mediaItems: z.array(mediaItemSchema),
+  })
+  .superRefine((project, ctx) => {
+    project.elements.forEach((element, index) => {
+      if (element.track >= project.tracks.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Track ${element.track} does not exist`,
+          path: ["elements", index, "track"],
+        });
+      }
+    });
+  });
+
+type RawProject = Record<string, unknown>;
+type RawElement = Record<string, unknown> & { content?: Record<string, unknown> };
+
+const isObject = (value: unknown): value is RawProject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// v1 -> v2: typed content model, settings block and stable id
+const migrateV1 = (data: RawProject): RawProject => {
+  const elements = Array.isArray(data.elements) ? (data.elements as RawElement[]) : [];
+  const savedAt = typeof data.savedAt === "string" ? data.savedAt : new Date().toISOString();
+
+  return {
+    version: 2,
+    id: typeof data.id === "string" ? data.id : uuidv4(),
+    name: data.name ?? "Untitled Project",
+    createdAt: savedAt,
+    savedAt,
+    settings: {
+      canvasWidth: data.canvasWidth,
+      canvasHeight: data.canvasHeight,
+      aspectRatio: data.aspectRatio ?? `${data.canvasWidth}:${data.canvasHeight}`,
+    },
+    mediaItems: data.mediaItems ?? [],
+    elements: elements.map((element) => {
+      const content = { ...element.content };
+      delete content.trimStart;
+      delete content.trimEnd;
+      delete content.mergedWith;
+      delete content.isMerged;
+
+      if (element.type === "text") {
+        return {
+          ...element,
+          speed: element.speed ?? 1,
+          content: {
+            text: String(content.content ?? ""),
+            fontSize: content.fontSize ?? 24,
+            fontWeight: content.fontWeight === "bold" ? "bold" : "normal",
+            fontStyle: content.fontStyle === "italic" ? "italic" : "normal",
+            color: content.color ?? "#000000",
+            alignment: content.alignment ?? "center",
+          },
+        };
+      }
+
+      if (element.type === "video" || element.type === "audio") {
+        content.volume = content.volume ?? 1;
+        content.muted = content.muted ?? false;
+      }
+      return { ...element, speed: element.speed ?? 1, content };
+    }),
+  };
+};
+
+// v2 -> v3: reference media by id instead of by (long dead) object URL
+const migrateV2 = (data: RawProject): RawProject => {
+  const mediaItems = Array.isArray(data.mediaItems) ? (data.mediaItems as RawProject[]) : [];
+  const elements = Array.isArray(data.elements) ? (data.elements as RawElement[]) : [];
+  const idsByUrl = new Map(mediaItems.map((item) => [item.url, item.id]));
+
+  return {
+    ...data,
+    version: 3,
+    mediaItems: mediaItems.map(({ url, ...item }) => item),
+    elements: elements.map((element) => {
+      if (element.type === "text" || !element.content) return element;
+      const { src, ...content } = element.content;
+      return { ...element, content: { ...content, mediaId: idsByUrl.get(src) ?? uuidv4() } };
+    }),
+  };
+};
+
+// v3 -> v4: source in/out points. Older clips played from the media start
+// for as long as they lasted on the timeline.
+const migrateV3 = (data: RawProject): RawProject => {
+  const mediaItems = Array.isArray(data.mediaItems) ? (data.mediaItems as RawProject[]) : [];
+  const elements = Array.isArray(data.elements) ? (data.elements as RawElement[]) : [];
+  const durations = new Map(mediaItems.map((item) => [item.id, item.duration]));
+
+  return {
+    ...data,
+    version: 4,
+    elements: elements.map((element) => {
+      if ((element.type !== "video" && element.type !== "audio") || !element.content) return element;
+
+      const speed = typeof element.speed === "number" ? element.speed : 1;
+      const sourceIn = typeof element.content.sourceIn === "number" ? element.content.sourceIn : 0;
+      const sourceOut = sourceIn + (Number(element.end) - Number(element.start)) * speed;
+      const mediaDuration = Number(durations.get(element.content.mediaId)) || 0;
+      return {
+        ...element,
+        content: { ...element.content, sourceIn, sourceOut, originalDuration: Math.max(sourceOut, mediaDuration) },
+      };
+    }),
+  };
+};
+
+// v4 -> v5: explicit tracks. Older projects had tracks 0 and 1 for video,
+// images and text and track 2 for audio; anything placed further down gets
+// an extra visual track.
+const migrateV4 = (data: RawProject): RawProject => {
+  const elements = Array.isArray(data.elements) ? (data.elements as RawElement[]) : [];
+  const lastTrack = Math.max(2, ...elements.map((element) => Number(element.track) || 0));
+  const track = (name: string, kind: "visual" | "audio") => ({
+    id: uuidv4(),
+    name,
+    kind,
+    height: DEFAULT_TRACK_HEIGHT,
+    locked: false,
+    hidden: false,
+    muted: false,
+    solo: false,
+  });
+
+  return {
+    ...data,
+    version: 5,
+    tracks: Array.from({ length: lastTrack + 1 }, (_, index) =>
+      index === 2 ? track("Audio 1", "audio") : track(`Video ${index < 2 ? index + 1 : index}`, "visual")
+    ),
+  };
+};
+
+// v5 -> v6: markers
+const migrateV5 = (data: RawProject): RawProject => ({
+  ...data,
+  version: 6,
+  markers: [],
+});
+
+// v6 -> v7: magnetic tracks
+const migrateV6 = (data: RawProject): RawProject => ({
+  ...data,
+  version: 7,
+  tracks: Array.isArray(data.tracks)
+    ? data.tracks.map((track) => (isObject(track) ? { ...track, magnetic: false } : track))
+    : data.tracks,
+});
+
+// v7 -> v8: compound elements; nothing to change
+const migrateV7 = (data: RawProject): RawProject => ({
+  ...data,
+  version: 8,
+});
+
+// v8 -> v9: pitch preservation, including in compound elements
+const addPreservePitch = (elements: unknown): unknown =>
+  Array.isArray(elements)
+    ? elements.map((element: RawElement) => {
+        if (!isObject(element) || !element.content) return element;
+        if (element.type === "video" || element.type === "audio") {
+          return { ...element, content: { ...element.content, preservePitch: true } };
+        }
+        if (element.type === "compound") {
+          return { ...element, content: { ...element.content, elements: addPreservePitch(element.content.elements) } };
+        }
+        return element;
+      })
+    : elements;
+
+const migrateV8 = (data: RawProject): RawProject => ({
+  ...data,
+  version: 9,
+  elements: addPreservePitch(data.elements),
+});
+
+// v9 -> v10: speed ramps; nothing to change
+const migrateV9 = (data: RawProject): RawProject => ({
+  ...data,
+  version: 10,
+});
+
+// Each entry upgrades a file from that version to the next one
+const migrations: Record<number, (data: RawProject) => RawProject> = {
+  1: migrateV1,
+  2: migrateV2,
+  3: migrateV3,
+  4: migrateV4,
+  5: migrateV5,
+  6: migrateV6,
+  7: migrateV7,
+  8: migrateV8,
+  9: migrateV9,
+};
+
+// Readable "path: message" lines for the first few schema problems
+const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "project"}: ${issue.message}`)
+    .join("\n");
+
+// Parse, migrate and validate a saved project. `fallbackId` names files
+// that predate project ids, e.g. after the storage key they were read from.
+export const parseProjectFile = (input: string | unknown, fallbackId?: string): ProjectFile => {
+  let data: unknown = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new ProjectFileError("Project file is not valid JSON");
+    }
+  }
+
+  if (!isObject(data)) {
+    throw new ProjectFileError("Project file does not contain a project");
+  }
+
+  let version = data.version === undefined ? 1 : data.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError(`Unknown project file version: ${String(data.version)}`);
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(
+      `This project was saved by a newer version of the editor (file version ${version}, supported up to ${PROJECT_FILE_VERSION})`
+    );
+  }
+
+  let migrated: RawProject = data.id === undefined && fallbackId ? { ...data, id: fallbackId } : data;
+  while (version < PROJECT_FILE_VERSION) {
+    migrated = migrations[version](migrated);
+    version += 1;
+  }
+
+  const result = projectFileSchema.safeParse(migrated);
+  if (!result.success) {
+    throw new ProjectFileError(`Project file is invalid:\n${formatIssues(result.error)}`);
+  }
+  return result.data as ProjectFile;
+};
+
+// Build a project file for the current editor state
+export const createProjectFile = (
+  project: Omit<ProjectFile, "version" | "savedAt">
+): ProjectFile => ({
+  ...project,
+  version: PROJECT_FILE_VERSION,
+  savedAt: new Date().toISOString(),
+});
+
+// Object URLs only work in the session that created them, so they aren't saved
+export const serializeProjectFile = (project: ProjectFile) =>
+  JSON.stringify({
+    ...project,
+    elements: serializeElements(project.elements),
+    mediaItems: serializeMediaItems(project.mediaItems),
+  });
+
+// Save metadata is set to this so it never counts as a change
+const SIGNATURE_DATE = new Date(0).toISOString();
+
+// Compares the editable content of two projects, ignoring save metadata.
+// Both go through the schema first, which puts keys in the same order
+// whether a project was just built or read from a file.
+export const getProjectSignature = (project: ProjectFile) => {
+  const file = serializeProjectFile({ ...project, createdAt: SIGNATURE_DATE, savedAt: SIGNATURE_DATE, thumbnail: undefined });
+  try {
+    return serializeProjectFile(parseProjectFile(file));
+  } catch {
+    // A project the schema rejects can't be saved as is, so it never matches
+    return file;
+  }
+};
+
+// Ids of every stored media file the project uses
+export const getProjectMediaIds = (project: ProjectFile) => {
+  const ids = new Set(project.mediaItems.map((item) => item.id));
+  getNestedElements(project.elements).forEach((element) => {
+    if (isMediaElement(element)) ids.add(element.content.mediaId);
+  });
+  return [...ids];
+};
@@ -0,0 +1,177 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  PROJECT_KEY_PREFIX,
+  ProjectFile,
+  ProjectFileError,
+  getProjectKey,
+  getProjectMediaIds,
+  parseProjectFile,
+  serializeProjectFile,
+} from "@/lib/projectFile";
+import { deleteMedia } from "@/lib/mediaStore";
+import { restoreMediaUrls } from "@/lib/mediaUrls";
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  duration: number;
+  aspectRatio: string;
+  savedAt: string;
+  thumbnail?: string;
+  // Set when the stored file could not be read
+  error?: string;
+}
+
+// Autosave snapshots sit next to the saved files and are removed on save
+const AUTOSAVE_KEY_PREFIX = "reelcraft_autosave_";
+
+const getAutosaveKey = (id: string) => `${AUTOSAVE_KEY_PREFIX}${id}`;
+
+const getProjectDuration = (project: ProjectFile) =>
+  project.elements.reduce((max, el) => Math.max(max, el.end), 0);
+
+// Ids of every project stored in localStorage under `prefix`
+const getStoredIds = (prefix: string) => {
+  const ids: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) {
+      ids.push(key.slice(prefix.length));
+    }
+  }
+  return ids;
+};
+
+const getStoredProjectIds = () => getStoredIds(PROJECT_KEY_PREFIX);
+
+// Read and validate one stored project, or null if it doesn't exist
+export const readProject = (id: string): ProjectFile | null => {
+  const raw = localStorage.getItem(getProjectKey(id));
+  if (raw === null) return null;
+  return parseProjectFile(raw, id);
+};
+
+export const writeProject = (project: ProjectFile) => {
+  localStorage.setItem(getProjectKey(project.id), serializeProjectFile(project));
+};
+
+// Summaries of all saved projects, most recently saved first
+export const listProjects = (): ProjectSummary[] => {
+  const summaries = getStoredProjectIds().map((id): ProjectSummary => {
+    try {
+      const project = readProject(id);
+      return {
+        id,
+        name: project.name,
+        duration: getProjectDuration(project),
+        aspectRatio: project.settings.aspectRatio,
+        savedAt: project.savedAt,
+        thumbnail: project.thumbnail,
+      };
+    } catch (error) {
+      return {
+        id,
+        name: "Unreadable project",
+        duration: 0,
+        aspectRatio: "",
+        savedAt: "",
+        error: error instanceof ProjectFileError ? error.message : "Project could not be read",
+      };
+    }
+  });
+
+  return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const renameProject = (id: string, name: string) => {
+  const project = readProject(id);
+  if (!project) throw new ProjectFileError("Project not found");
+  writeProject({ ...project, name, savedAt: new Date().toISOString() });
+};
+
+// Copy a project under a new id and return that id
+export const duplicateProject = (id: string) => {
+  const project = readProject(id);
+  if (!project) throw new ProjectFileError("Project not found");
+
+  const now = new Date().toISOString();
+  const copy: ProjectFile = {
+    ...project,
+    id: uuidv4(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    savedAt: now,
+  };
+  writeProject(copy);
+  return copy.id;
+};
+
+export const writeAutosave = (project: ProjectFile) => {
+  const snapshot = { ...project, savedAt: new Date().toISOString() };
+  localStorage.setItem(getAutosaveKey(project.id), serializeProjectFile(snapshot));
+};
+
+// The autosave snapshot of a project, or null if there is no usable one
+export const readAutosave = (id: string): ProjectFile | null => {
+  const raw = localStorage.getItem(getAutosaveKey(id));
+  if (raw === null) return null;
+  try {
+    return parseProjectFile(raw, id);
+  } catch (error) {
+    console.warn("Ignoring unreadable autosave:", error);
+    return null;
+  }
+};
+
+export const clearAutosave = (id: string) => {
+  localStorage.removeItem(getAutosaveKey(id));
+};
+
+// Id of the most recently autosaved project, if any has unsaved work
+export const getLatestAutosaveId = () => {
+  let latest: ProjectFile | null = null;
+  getStoredIds(AUTOSAVE_KEY_PREFIX).forEach((id) => {
+    const snapshot = readAutosave(id);
+    if (snapshot && (!latest || snapshot.savedAt > latest.savedAt)) latest = snapshot;
+  });
+  return latest?.id ?? null;
+};
+
+// Delete a project and any stored media no other project or autosave uses
+export const deleteProject = async (id: string) => {
+  let mediaIds: string[] = [];
+  try {
+    const project = readProject(id);
+    if (project) mediaIds = getProjectMediaIds(project);
+  } catch {
+    // An unreadable file can still be deleted; its media is left in place
+  }
+  localStorage.removeItem(getProjectKey(id));
+  clearAutosave(id);
+
+  // Autosaves can hold media their project was never saved with
+  const otherKeys = [
+    ...getStoredProjectIds().map(getProjectKey),
+    ...getStoredIds(AUTOSAVE_KEY_PREFIX).map(getAutosaveKey),
+  ];
+  const usedElsewhere = new Set<string>();
+  otherKeys.forEach((key) => {
+    try {
+      const other = parseProjectFile(localStorage.getItem(key));
+      getProjectMediaIds(other).forEach((mediaId) => usedElsewhere.add(mediaId));
+    } catch {
+      // Media referenced by unreadable files can't be known, so keep it all
+      mediaIds = [];
+    }
+  });
+
+  await deleteMedia(mediaIds.filter((mediaId) => !usedElsewhere.has(mediaId)));
+};
+
+// Recreate object URLs for a loaded project's media. Returns the project with
+// `src`/`url` filled in and the names of media missing from the store.
+export const restoreProjectMedia = async (project: ProjectFile) => {
+  const { elements, mediaItems, missing } = await restoreMediaUrls(project.elements, project.mediaItems);
+  const restored: ProjectFile = { ...project, mediaItems, elements };
+  return { project: restored, missing };
+};
@@ -0,0 +1,48 @@
+// Something a dragged time can snap to
+export type SnapKind = "playhead" | "clip" | "marker" | "grid";
+
+export interface SnapTarget {
+  time: number;
+  kind: SnapKind;
+}
+
+export interface SnapResult {
+  // Add this to the dragged times to snap them
+  offset: number;
+  // Where the snap line goes
+  time: number;
+  kind: SnapKind;
+}
+
+// How close a dragged time must come to a target, in screen pixels
+export const SNAP_THRESHOLD_PX = 8;
+
+// Frame rate of the grid when zoomed in far enough to see frames
+export const GRID_FPS = 30;
+
+// Snap to frames when a frame is wide enough to aim at, otherwise to seconds
+export const getGridStep = (pixelsPerSecond: number) =>
+  pixelsPerSecond / GRID_FPS >= SNAP_THRESHOLD_PX ? 1 / GRID_FPS : 1;
+
+// Find the smallest move that puts one of `times` on a target. Targets win
+// over the grid; returns null when nothing is within `threshold` seconds.
+export const findSnap = (
+  times: number[],
+  targets: SnapTarget[],
+  threshold: number,
+  gridStep?: number
+): SnapResult | null => {
+  let best: SnapResult | null = null;
+  const consider = (time: number, target: number, kind: SnapKind) => {
+    const offset = target - time;
+    if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+      best = { offset, time: target, kind };
+    }
+  };
+
+  times.forEach((time) => targets.forEach((target) => consider(time, target.time, target.kind)));
+  if (!best && gridStep) {
+    times.forEach((time) => consider(time, Math.round(time / gridStep) * gridStep, "grid"));
+  }
+  return best;
+};
@@ -0,0 +1,100 @@
+import { SpeedKeyframe } from "@/types/timeline";
+
+/*
+ * Speed ramps
+ *
+ * A ramp is a list of keyframes sorted by position, the first at 0 and the
+ * last at 1, with the speed changing linearly between them. Positions are
+ * along the clip on the timeline, so the ramp stretches with the clip when its
+ * speed changes, while trims and splits crop it to the part that's kept (see
+ * cropSpeedRamp). At timeline time t a clip with speed s and
+ * length L plays |s| * ramp(t / L) times faster than normal, which makes
+ *
+ *   L = (sourceOut - sourceIn) / (|s| * area under the ramp)
+ *
+ * Outside 0..1, e.g. while an edge is dragged out, the end speeds carry on.
+ */
+
+export const MIN_RAMP_SPEED = 0.1;
+export const MAX_RAMP_SPEED = 5;
+
+const ramp = (points: [number, number][]): SpeedKeyframe[] =>
+  points.map(([position, speed]) => ({ position, speed }));
+
+export const SPEED_RAMP_PRESETS: { id: string; label: string; ramp: SpeedKeyframe[] }[] = [
+  { id: "montage", label: "Montage", ramp: ramp([[0, 1], [0.2, 0.5], [0.4, 2.5], [0.6, 0.5], [0.8, 2.5], [1, 1]]) },
+  { id: "hero", label: "Hero", ramp: ramp([[0, 2], [0.35, 2], [0.45, 0.3], [0.55, 0.3], [0.65, 2], [1, 2]]) },
+  { id: "bullet", label: "Bullet", ramp: ramp([[0, 2.5], [0.35, 2.5], [0.42, 0.15], [0.78, 0.15], [0.85, 2.5], [1, 2.5]]) },
+  { id: "flash-in", label: "Flash in", ramp: ramp([[0, 4], [0.25, 4], [0.45, 1], [1, 1]]) },
+  { id: "flash-out", label: "Flash out", ramp: ramp([[0, 1], [0.55, 1], [0.75, 4], [1, 4]]) },
+];
+
+// Speed at a position
+export const getRampSpeed = (keyframes: SpeedKeyframe[], position: number) => {
+  if (position <= keyframes[0].position) return keyframes[0].speed;
+  for (let i = 1; i < keyframes.length; i++) {
+    const a = keyframes[i - 1];
+    const b = keyframes[i];
+    if (position <= b.position) {
+      return b.position === a.position
+        ? b.speed
+        : a.speed + ((b.speed - a.speed) * (position - a.position)) / (b.position - a.position);
+    }
+  }
+  return keyframes[keyframes.length - 1].speed;
+};
+
+// Area under the ramp from 0 to `position`
+export const integrateRamp = (keyframes: SpeedKeyframe[], position: number) => {
+  if (position <= 0) return position * keyframes[0].speed;
+  let area = 0;
+  for (let i = 1; i < keyframes.length; i++) {
+    const a = keyframes[i - 1];
+    const b = keyframes[i];
+    const end = Math.min(position, b.position);
+    if (end > a.position) {
+      const speedAtEnd = a.speed + ((b.speed - a.speed) * (end - a.position)) / (b.position - a.position);
+      area += ((end - a.position) * (a.speed + speedAtEnd)) / 2;
+    }
+    if (position <= b.position) return area;
+  }
+  return area + (position - 1) * keyframes[keyframes.length - 1].speed;
+};
+
+// Position at which the area under the ramp reaches `area`
+export const invertRampIntegral = (keyframes: SpeedKeyframe[], area: number) => {
+  if (area <= 0) return area / keyframes[0].speed;
+  let total = 0;
+  for (let i = 1; i < keyframes.length; i++) {
+    const a = keyframes[i - 1];
+    const b = keyframes[i];
+    const width = b.position - a.position;
+    if (width <= 0) continue;
+
+    const segment = (width * (a.speed + b.speed)) / 2;
+    if (total + segment >= area) {
+      // Solve a.speed * x + slope * x^2 / 2 = rest for x
+      const rest = area - total;
+      const slope = (b.speed - a.speed) / width;
+      const x = Math.abs(slope) < 1e-9
+        ? rest / a.speed
+        : (Math.sqrt(a.speed * a.speed + 2 * slope * rest) - a.speed) / slope;
+      return a.position + x;
+    }
+    total += segment;
+  }
+  return 1 + (area - total) / keyframes[keyframes.length - 1].speed;
+};
+
+// The part of a ramp from `from` to `to`, stretched over 0..1
+export const cropSpeedRamp = (keyframes: SpeedKeyframe[], from: number, to: number): SpeedKeyframe[] => [
+  { position: 0, speed: getRampSpeed(keyframes, from) },
+  ...keyframes
+    .filter((keyframe) => keyframe.position > from && keyframe.position < to)
+    .map((keyframe) => ({ position: (keyframe.position - from) / (to - from), speed: keyframe.speed })),
+  { position: 1, speed: getRampSpeed(keyframes, to) },
+];
+
+// The ramp played from end to start
+export const mirrorSpeedRamp = (keyframes: SpeedKeyframe[]): SpeedKeyframe[] =>
+  keyframes.map((keyframe) => ({ position: 1 - keyframe.position, speed: keyframe.speed })).reverse();
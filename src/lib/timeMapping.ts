@@ -0,0 +1,60 @@
+import { SpeedKeyframe, TimelineElement, isAudibleElement, isRangedElement } from "@/types/timeline";
+import { getRampSpeed, integrateRamp, invertRampIntegral } from "@/lib/speedRamp";
+
+// An element's speed maps its source time to timeline time. It plays its
+// source range at |speed| times normal speed, backwards when speed is
+// negative, and a speed ramp varies that over the clip (see
+// src/lib/speedRamp.ts). Elements without a source range count from 0.
+
+export const getPlaybackRate = (element: TimelineElement) => Math.abs(element.speed || 1);
+
+export const isReversed = (element: TimelineElement) => (element.speed || 1) < 0;
+
+// The element's speed ramp, or null when it plays at a constant speed
+export const getSpeedRamp = (element: TimelineElement): SpeedKeyframe[] | null =>
+  isAudibleElement(element) && element.content.speedRamp?.length ? element.content.speedRamp : null;
+
+// Playback rate at a timeline time
+export const getPlaybackRateAt = (element: TimelineElement, time: number) => {
+  const ramp = getSpeedRamp(element);
+  const position = (time - element.start) / (element.end - element.start);
+  return getPlaybackRate(element) * (ramp ? getRampSpeed(ramp, position) : 1);
+};
+
+// Timeline length of `sourceLength` source seconds at the element's speed
+// and ramp
+export const getTimelineLength = (element: TimelineElement, sourceLength: number) => {
+  const ramp = getSpeedRamp(element);
+  return sourceLength / (getPlaybackRate(element) * (ramp ? integrateRamp(ramp, 1) : 1));
+};
+
+// Source seconds played between the element's start and a timeline time
+const getSourceOffset = (element: TimelineElement, time: number) => {
+  const ramp = getSpeedRamp(element);
+  if (!ramp) return (time - element.start) * getPlaybackRate(element);
+  const length = element.end - element.start;
+  return getPlaybackRate(element) * length * integrateRamp(ramp, (time - element.start) / length);
+};
+
+// Source time shown at the element's start: the in-point, or the out-point
+// when it plays backwards
+const getStartSourceTime = (element: TimelineElement) => {
+  if (!isRangedElement(element)) return 0;
+  return isReversed(element) ? element.content.sourceOut : element.content.sourceIn;
+};
+
+// Time inside the source media, or the nested sequence, for a timeline time
+export const getSourceTime = (element: TimelineElement, time: number) =>
+  getStartSourceTime(element) + Math.sign(element.speed || 1) * getSourceOffset(element, time);
+
+// Timeline time at which a source time plays
+export const getTimelineTime = (element: TimelineElement, sourceTime: number) => {
+  const offset = (sourceTime - getStartSourceTime(element)) * Math.sign(element.speed || 1);
+  const ramp = getSpeedRamp(element);
+  if (!ramp) return element.start + offset / getPlaybackRate(element);
+  const length = element.end - element.start;
+  return element.start + length * invertRampIntegral(ramp, offset / (getPlaybackRate(element) * length));
+};
+
+// Media elements only play between these rates
+export const clampMediaRate = (rate: number) => Math.min(16, Math.max(0.0625, rate));
@@ -0,0 +1,377 @@
+import { describe, expect, it } from "vitest";
+import { ImageElement, Marker, TextElement, TimelineElement, Track, TrimMode, TrimSide, VideoElement } from "@/types/timeline";
+import { createTrack } from "@/lib/tracks";
+import { TimelineOperation, applyOperations } from "@/lib/timelineHistory";
+import {
+  MIN_CLIP_DURATION,
+  applyTrimEdit,
+  planClipMove,
+  planCloseGaps,
+  planRangeEdit,
+} from "@/lib/timelineEdits";
+
+const box = { x: 0, y: 0, width: 100, height: 100, rotation: 0, speed: 1 };
+
+// A video at normal speed playing from `sourceIn` of media `originalDuration` long
+const video = (
+  id: string,
+  start: number,
+  end: number,
+  { track = 0, sourceIn = 0, originalDuration = 20 } = {}
+): VideoElement => ({
+  ...box,
+  id,
+  type: "video",
+  name: id,
+  start,
+  end,
+  track,
+  content: {
+    mediaId: id,
+    src: "",
+    sourceIn,
+    sourceOut: sourceIn + end - start,
+    originalDuration,
+    volume: 1,
+    muted: false,
+    preservePitch: true,
+  },
+});
+
+const image = (id: string, start: number, end: number): ImageElement => ({
+  ...box,
+  id,
+  type: "image",
+  name: id,
+  start,
+  end,
+  track: 0,
+  content: { mediaId: id, src: "" },
+});
+
+const text = (id: string, start: number, end: number): TextElement => ({
+  ...box,
+  id,
+  type: "text",
+  name: id,
+  start,
+  end,
+  track: 0,
+  content: {
+    text: id,
+    fontSize: 24,
+    fontWeight: "normal",
+    fontStyle: "normal",
+    color: "#ffffff",
+    alignment: "center",
+  },
+});
+
+const createTracks = (): Track[] => [
+  createTrack("visual", "Video 1"),
+  createTrack("visual", "Video 2"),
+  createTrack("audio", "Audio 1"),
+];
+
+const marker = (time: number): Marker => ({ id: `marker-${time}`, time, name: "", color: "#ff0000", notes: "" });
+
+// The changed elements of a trim edit, by id
+const trim = (elements: TimelineElement[], mode: TrimMode, clipId: string, delta: number, side?: TrimSide) =>
+  new Map(applyTrimEdit(elements, { mode, clipId, side, delta }).map((element) => [element.id, element]));
+
+// Elements after applying planned operations, as [id, start, end, track]
+const layout = (elements: TimelineElement[], operations: TimelineOperation[] | null, tracks = createTracks()) =>
+  applyOperations({ elements, tracks, markers: [] }, operations ?? []).elements.map((element) => [
+    element.id,
+    element.start,
+    element.end,
+    element.track,
+  ]);
+
+describe("applyTrimEdit", () => {
+  describe("trim", () => {
+    it("extends an end only as far as the media goes", () => {
+      const elements = [video("a", 0, 4, { sourceIn: 1, originalDuration: 6 })];
+      const edited = trim(elements, "trim", "a", 5, "end").get("a") as VideoElement;
+
+      expect(edited.end).toBeCloseTo(5);
+      expect(edited.content.sourceOut).toBeCloseTo(6);
+    });
+
+    it("extends a start only as far as the media goes", () => {
+      const edited = trim([video("a", 5, 7, { sourceIn: 1 })], "trim", "a", -3, "start").get("a") as VideoElement;
+
+      expect(edited.start).toBeCloseTo(4);
+      expect(edited.content.sourceIn).toBeCloseTo(0);
+    });
+
+    it("doesn't extend a start before the timeline start", () => {
+      const edited = trim([video("a", 1, 3, { sourceIn: 5 })], "trim", "a", -3, "start").get("a") as VideoElement;
+
+      expect(edited.start).toBeCloseTo(0);
+      expect(edited.content.sourceIn).toBeCloseTo(4);
+    });
+
+    it("leaves at least the shortest clip", () => {
+      expect(trim([video("a", 0, 4)], "trim", "a", -10, "end").get("a").end).toBeCloseTo(MIN_CLIP_DURATION);
+      expect(trim([video("a", 0, 4)], "trim", "a", 10, "start").get("a").start).toBeCloseTo(4 - MIN_CLIP_DURATION);
+    });
+
+    it("extends images as far as wanted", () => {
+      expect(trim([image("a", 0, 4)], "trim", "a", 100, "end").get("a").end).toBe(104);
+    });
+  });
+
+  describe("ripple", () => {
+    it("moves later clips on the track by the change in length", () => {
+      const elements = [video("a", 0, 4), video("b", 4, 6), video("c", 5, 7, { track: 1 })];
+      const edited = trim(elements, "ripple", "a", 1, "end");
+
+      expect(edited.get("a").end).toBeCloseTo(5);
+      expect([edited.get("b").start, edited.get("b").end]).toEqual([5, 7]);
+      expect(edited.has("c")).toBe(false);
+    });
+
+    it("cuts the head of a clip without moving its start", () => {
+      const elements = [video("a", 2, 6, { sourceIn: 2 }), video("b", 6, 8)];
+      const edited = trim(elements, "ripple", "a", 1, "start");
+      const a = edited.get("a") as VideoElement;
+
+      expect([a.start, a.end]).toEqual([2, 5]);
+      expect(a.content.sourceIn).toBeCloseTo(3);
+      expect([edited.get("b").start, edited.get("b").end]).toEqual([5, 7]);
+    });
+
+    it("extends a head by the media there is, even past the timeline start", () => {
+      const elements = [video("a", 1, 5, { sourceIn: 2 }), video("b", 5, 7)];
+      const edited = trim(elements, "ripple", "a", -5, "start");
+      const a = edited.get("a") as VideoElement;
+
+      expect(a.start).toBeCloseTo(1);
+      expect(a.end).toBeCloseTo(7);
+      expect(a.content.sourceIn).toBeCloseTo(0);
+      expect(edited.get("b").start).toBeCloseTo(7);
+    });
+  });
+
+  describe("roll", () => {
+    const elements = () => [video("a", 0, 4, { originalDuration: 5 }), video("b", 4, 8, { sourceIn: 3 })];
+
+    it("moves the cut between two touching clips", () => {
+      const edited = trim(elements(), "roll", "a", 0.5, "end");
+
+      expect(edited.get("a").end).toBeCloseTo(4.5);
+      expect(edited.get("b").start).toBeCloseTo(4.5);
+      expect((edited.get("b") as VideoElement).content.sourceIn).toBeCloseTo(3.5);
+    });
+
+    it("stops where the clip before the cut runs out of media", () => {
+      const edited = trim(elements(), "roll", "a", 3, "end");
+
+      expect(edited.get("a").end).toBeCloseTo(5);
+      expect(edited.get("b").start).toBeCloseTo(5);
+    });
+
+    it("stops where the clip after the cut runs out of media", () => {
+      const edited = trim(elements(), "roll", "b", -10, "start");
+
+      expect(edited.get("a").end).toBeCloseTo(1);
+      expect(edited.get("b").start).toBeCloseTo(1);
+      expect((edited.get("b") as VideoElement).content.sourceIn).toBeCloseTo(0);
+    });
+
+    it("trims a clip with nothing touching the edge", () => {
+      const edited = trim([video("a", 0, 4), video("b", 5, 8)], "roll", "a", -1, "end");
+
+      expect([...edited.keys()]).toEqual(["a"]);
+      expect(edited.get("a").end).toBeCloseTo(3);
+    });
+  });
+
+  describe("slip", () => {
+    const a = video("a", 0, 4, { sourceIn: 2, originalDuration: 10 });
+
+    it("shows earlier media when dragged right, keeping the clip in place", () => {
+      const slipped = trim([a], "slip", "a", 1).get("a") as VideoElement;
+
+      expect([slipped.start, slipped.end]).toEqual([0, 4]);
+      expect(slipped.content.sourceIn).toBeCloseTo(1);
+      expect(slipped.content.sourceOut).toBeCloseTo(5);
+    });
+
+    it("stops at either end of the media", () => {
+      expect((trim([a], "slip", "a", 5).get("a") as VideoElement).content.sourceIn).toBeCloseTo(0);
+      expect((trim([a], "slip", "a", -10).get("a") as VideoElement).content.sourceOut).toBeCloseTo(10);
+    });
+
+    it("does nothing to clips without media time", () => {
+      expect(trim([text("a", 0, 4)], "slip", "a", 1).size).toBe(0);
+    });
+  });
+
+  describe("slide", () => {
+    it("moves a clip and the cuts on both sides of it", () => {
+      const elements = [video("before", 0, 4), video("a", 4, 6), video("after", 6, 10, { sourceIn: 5 })];
+      const edited = trim(elements, "slide", "a", 2);
+
+      expect([edited.get("a").start, edited.get("a").end]).toEqual([6, 8]);
+      expect(edited.get("before").end).toBeCloseTo(6);
+      expect(edited.get("after").start).toBeCloseTo(8);
+      expect((edited.get("after") as VideoElement).content.sourceIn).toBeCloseTo(7);
+    });
+
+    it("stops before a neighbour gets too short", () => {
+      const elements = [video("before", 0, 4), video("a", 4, 6), video("after", 6, 10, { sourceIn: 5 })];
+
+      expect(trim(elements, "slide", "a", 10).get("a").end).toBeCloseTo(10 - MIN_CLIP_DURATION);
+      expect(trim(elements, "slide", "a", -10).get("a").start).toBeCloseTo(MIN_CLIP_DURATION);
+    });
+
+    it("moves a clip with no neighbours only into the empty space around it", () => {
+      const elements = [video("x", 0, 2), video("a", 4, 6), video("y", 9, 12)];
+
+      expect(trim(elements, "slide", "a", -5).get("a").start).toBeCloseTo(2);
+      expect(trim(elements, "slide", "a", 5).get("a").end).toBeCloseTo(9);
+      expect([...trim(elements, "slide", "a", 5).keys()]).toEqual(["a"]);
+    });
+  });
+});
+
+describe("planClipMove", () => {
+  it("blocks: drops the clip in the nearest free space", () => {
+    const elements = [video("a", 0, 2), video("b", 5, 9)];
+    const operations = planClipMove(elements, createTracks(), { clipId: "a", start: 7, track: 0 }, "block");
+
+    expect(layout(elements, operations)).toEqual([["a", 9, 11, 0], ["b", 5, 9, 0]]);
+  });
+
+  it("overwrites: cuts the part of a clip the dropped clip covers", () => {
+    const elements = [video("a", 0, 2), video("b", 4, 10)];
+    const operations = planClipMove(elements, createTracks(), { clipId: "a", start: 5, track: 0 }, "overwrite");
+    const result = applyOperations({ elements, tracks: createTracks(), markers: [] }, operations).elements;
+
+    expect(result.map((el) => [el.start, el.end])).toEqual([[5, 7], [4, 5], [7, 10]]);
+    expect((result[2] as VideoElement).content.sourceIn).toBeCloseTo(3);
+  });
+
+  it("overwrites: removes clips the dropped clip covers completely", () => {
+    const elements = [video("a", 0, 2), video("b", 5, 6)];
+    const operations = planClipMove(elements, createTracks(), { clipId: "a", start: 5, track: 0 }, "overwrite");
+
+    expect(layout(elements, operations)).toEqual([["a", 5, 7, 0]]);
+  });
+
+  it("inserts: splits the clip at the drop point and pushes later clips along", () => {
+    const elements = [video("a", 0, 2), video("b", 4, 10), video("c", 11, 12), video("d", 4, 10, { track: 1 })];
+    const operations = planClipMove(elements, createTracks(), { clipId: "a", start: 5, track: 0 }, "insert");
+    const result = applyOperations({ elements, tracks: createTracks(), markers: [] }, operations).elements;
+
+    expect(result.map((el) => [el.start, el.end, el.track])).toEqual([
+      [5, 7, 0],
+      [4, 5, 0],
+      [7, 12, 0],
+      [13, 14, 0],
+      [4, 10, 1],
+    ]);
+  });
+
+  it("moves clips to another compatible track", () => {
+    const elements = [video("a", 0, 2)];
+    const operations = planClipMove(elements, createTracks(), { clipId: "a", start: 0, track: 1 }, "block");
+
+    expect(layout(elements, operations)).toEqual([["a", 0, 2, 1]]);
+  });
+
+  it("doesn't start clips before 0", () => {
+    const elements = [video("a", 2, 4)];
+    const operations = planClipMove(elements, createTracks(), { clipId: "a", start: -3, track: 0 }, "overwrite");
+
+    expect(layout(elements, operations)).toEqual([["a", 0, 2, 0]]);
+  });
+
+  it("returns null for moves that can't happen or change nothing", () => {
+    const elements = [video("a", 0, 2)];
+    const locked = createTracks().map((track, i) => (i === 1 ? { ...track, locked: true } : track));
+
+    expect(planClipMove(elements, createTracks(), { clipId: "a", start: 0, track: 2 }, "block")).toBeNull();
+    expect(planClipMove(elements, locked, { clipId: "a", start: 0, track: 1 }, "block")).toBeNull();
+    expect(planClipMove(elements, createTracks(), { clipId: "a", start: 0, track: 0 }, "block")).toBeNull();
+    expect(planClipMove(elements, createTracks(), { clipId: "missing", start: 3, track: 0 }, "block")).toBeNull();
+  });
+});
+
+describe("planRangeEdit", () => {
+  const elements = () => [video("a", 0, 6), video("b", 7, 9)];
+  const markers = [marker(1), marker(3), marker(8)];
+
+  const edit = (kind: "lift" | "extract" | "crop", tracks = createTracks(), items = elements()) => {
+    const operations = planRangeEdit(items, tracks, markers, [2, 4], kind);
+    return applyOperations({ elements: items, tracks, markers }, operations ?? []);
+  };
+
+  it("lifts the range out and leaves a gap", () => {
+    const result = edit("lift");
+
+    expect(result.elements.map((el) => [el.start, el.end])).toEqual([[0, 2], [4, 6], [7, 9]]);
+    expect(result.markers).toEqual(markers);
+  });
+
+  it("extracts the range and closes the gap, moving later markers", () => {
+    const result = edit("extract");
+
+    expect(result.elements.map((el) => [el.start, el.end])).toEqual([[0, 2], [2, 4], [5, 7]]);
+    expect((result.elements[1] as VideoElement).content.sourceIn).toBeCloseTo(4);
+    expect(result.markers.map((m) => m.time)).toEqual([1, 6]);
+  });
+
+  it("crops to the range, moved to the start", () => {
+    const result = edit("crop");
+
+    expect(result.elements.map((el) => [el.id, el.start, el.end])).toEqual([["a", 0, 2]]);
+    expect((result.elements[0] as VideoElement).content.sourceIn).toBeCloseTo(2);
+    expect(result.markers.map((m) => m.time)).toEqual([1]);
+  });
+
+  it("leaves clips on locked tracks alone", () => {
+    const tracks = createTracks().map((track, i) => (i === 1 ? { ...track, locked: true } : track));
+    const result = edit("extract", tracks, [...elements(), video("c", 1, 8, { track: 1 })]);
+
+    expect(result.elements.find((el) => el.id === "c")).toMatchObject({ start: 1, end: 8 });
+  });
+
+  it("returns null when nothing would change", () => {
+    expect(planRangeEdit(elements(), createTracks(), [], [6.2, 6.8], "lift")).toBeNull();
+  });
+});
+
+describe("planCloseGaps", () => {
+  it("closes every gap on every unlocked track", () => {
+    const elements = [video("a", 1, 2), video("b", 4, 5), video("c", 3, 4, { track: 1 })];
+
+    expect(layout(elements, planCloseGaps(elements, createTracks()))).toEqual([
+      ["a", 0, 1, 0],
+      ["b", 1, 2, 0],
+      ["c", 0, 1, 1],
+    ]);
+  });
+
+  it("closes one gap by pulling later clips on its track back", () => {
+    const elements = [video("a", 1, 2), video("b", 4, 5), video("c", 4, 5, { track: 1 })];
+    const operations = planCloseGaps(elements, createTracks(), { track: 0, start: 2, end: 4 });
+
+    expect(layout(elements, operations)).toEqual([
+      ["a", 1, 2, 0],
+      ["b", 2, 3, 0],
+      ["c", 4, 5, 1],
+    ]);
+  });
+
+  it("returns null when there's nothing to close", () => {
+    const locked = createTracks().map((track) => ({ ...track, locked: true }));
+    const elements = [video("a", 1, 2)];
+
+    expect(planCloseGaps(elements, locked)).toBeNull();
+    expect(planCloseGaps(elements, locked, { track: 0, start: 0, end: 1 })).toBeNull();
+    expect(planCloseGaps([video("a", 0, 2)], createTracks())).toBeNull();
+  });
+});
@@ -0,0 +1,576 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  ClipMove,
+  CollisionMode,
+  Marker,
+  AudibleElement,
+  RangedElement,
+  SpeedKeyframe,
+  TimelineElement,
+  Track,
+  TrimEdit,
+  TrimMode,
+  TrimSide,
+  isAudibleElement,
+  isRangedElement,
+} from "@/types/timeline";
+import {
+  getPlaybackRate,
+  getPlaybackRateAt,
+  getSourceTime,
+  getSpeedRamp,
+  getTimelineLength,
+  getTimelineTime,
+  isReversed,
+} from "@/lib/timeMapping";
+import { cropSpeedRamp } from "@/lib/speedRamp";
+import { TimelineOperation, TimelineState, applyOperations } from "@/lib/timelineHistory";
+import { isCompatibleTrack, isTrackLocked } from "@/lib/tracks";
+
+// Shortest piece an edit may leave behind, in seconds
+export const MIN_CLIP_DURATION = 0.05;
+
+// Clips closer than this count as touching
+const EDGE_EPSILON = 0.001;
+
+// How trim edits are named in the history, e.g. "Ripple trim clip 'beach.mp4'"
+export const TRIM_MODE_LABELS: Record<TrimMode, string> = {
+  trim: "Trim",
+  ripple: "Ripple trim",
+  roll: "Roll edit",
+  slip: "Slip",
+  slide: "Slide",
+};
+
+// Whether splitting at `time` leaves two usable pieces
+export const canSplitAt = (element: TimelineElement, time: number) =>
+  time - element.start >= MIN_CLIP_DURATION && element.end - time >= MIN_CLIP_DURATION;
+
+// Split an element at a timeline time. The right half gets `rightId` and
+// starts its media where the left half stops.
+export const splitElement = (
+  element: TimelineElement,
+  time: number,
+  rightId: string
+): [TimelineElement, TimelineElement] => {
+  if (!isRangedElement(element)) {
+    return [{ ...element, end: time }, { ...element, id: rightId, start: time }];
+  }
+
+  // A clip playing backwards shows the end of its range first
+  const splitPoint = getSourceTime(element, time);
+  const [head, tail] = isReversed(element)
+    ? [{ sourceIn: splitPoint }, { sourceOut: splitPoint }]
+    : [{ sourceOut: splitPoint }, { sourceIn: splitPoint }];
+  const left = { ...element, end: time, content: { ...element.content, ...head } } as RangedElement;
+  const right = { ...element, id: rightId, start: time, content: { ...element.content, ...tail } } as RangedElement;
+  return [withRampPart(left, element, 0, time), withRampPart(right, element, time, element.end)];
+};
+
+// Give a piece of `original` from `start` to `end` the matching part of
+// its speed ramp
+const withRampPart = (piece: TimelineElement, original: TimelineElement, start: number, end: number) => {
+  const ramp = getSpeedRamp(original);
+  if (!ramp || !isAudibleElement(piece)) return piece;
+  const length = original.end - original.start;
+  const speedRamp = cropSpeedRamp(ramp, (Math.max(start, original.start) - original.start) / length, (end - original.start) / length);
+  return { ...piece, content: { ...piece.content, speedRamp } } as AudibleElement;
+};
+
+// Move an element's edges to `start` and `end` on the timeline. Video, audio
+// and compound clips move their source in/out points with the edges and
+// can't be extended past either end of their media, so the edges may be
+// clamped.
+export const trimElement = (element: TimelineElement, start: number, end: number): TimelineElement => {
+  if (!isRangedElement(element)) return { ...element, start, end };
+
+  const clampSource = (time: number) => Math.min(element.content.originalDuration, Math.max(0, time));
+  const atStart = clampSource(getSourceTime(element, start));
+  const atEnd = clampSource(getSourceTime(element, end));
+  const clampedStart = getTimelineTime(element, atStart);
+  const clampedEnd = getTimelineTime(element, atEnd);
+
+  const trimmed = {
+    ...element,
+    start: clampedStart,
+    end: clampedEnd,
+    content: { ...element.content, sourceIn: Math.min(atStart, atEnd), sourceOut: Math.max(atStart, atEnd) },
+  } as RangedElement;
+  return withRampPart(trimmed, element, clampedStart, clampedEnd);
+};
+
+// Change playback speed and, for video and audio, the speed ramp (null for
+// none), keeping the start and the media that plays. The length always
+// follows from the source range, so speeds don't compound. A negative speed
+// plays the media backwards.
+export const setElementSpeed = (
+  element: TimelineElement,
+  speed: number,
+  speedRamp: SpeedKeyframe[] | null = getSpeedRamp(element)
+): TimelineElement => {
+  if (isRangedElement(element)) {
+    const retimed = (
+      isAudibleElement(element)
+        ? { ...element, speed, content: { ...element.content, speedRamp: speedRamp ?? undefined } }
+        : { ...element, speed }
+    ) as RangedElement;
+    const { sourceIn, sourceOut } = element.content;
+    return { ...retimed, end: element.start + getTimelineLength(retimed, sourceOut - sourceIn) };
+  }
+  const duration = (element.end - element.start) * getPlaybackRate(element);
+  return { ...element, speed, end: element.start + duration / Math.abs(speed) };
+};
+
+type Range = [number, number];
+
+const clamp = (value: number, [min, max]: Range) => Math.min(max, Math.max(min, value));
+
+const intersect = (a: Range, b: Range): Range => [Math.max(a[0], b[0]), Math.min(a[1], b[1])];
+
+// Timeline seconds of unused media beyond an edge, which a clip played
+// backwards has on the other side of its source range
+const getMediaRoom = (element: TimelineElement, side: TrimSide) => {
+  if (!isRangedElement(element)) return Infinity;
+  const { sourceIn, sourceOut, originalDuration } = element.content;
+  const atSourceIn = (side === "start") !== isReversed(element);
+  const rate = getPlaybackRateAt(element, side === "start" ? element.start : element.end);
+  return (atSourceIn ? sourceIn : originalDuration - sourceOut) / rate;
+};
+
+// How far an edge can move either way: it can't pass the other edge or 0,
+// and video and audio can't run past either end of their media
+const getEdgeRange = (element: TimelineElement, side: TrimSide): Range => {
+  const room = Math.max(0, element.end - element.start - MIN_CLIP_DURATION);
+  if (side === "start") {
+    return [-Math.min(getMediaRoom(element, "start"), element.start), room];
+  }
+  return [-room, getMediaRoom(element, "end")];
+};
+
+const moveEdge = (element: TimelineElement, side: TrimSide, delta: number) =>
+  side === "start"
+    ? trimElement(element, element.start + delta, element.end)
+    : trimElement(element, element.start, element.end + delta);
+
+const shiftElement = (element: TimelineElement, delta: number): TimelineElement => ({
+  ...element,
+  start: element.start + delta,
+  end: element.end + delta,
+});
+
+// The clip on the same track that touches the given edge
+const findNeighbour = (elements: TimelineElement[], element: TimelineElement, side: TrimSide) =>
+  elements.find(
+    (other) =>
+      other.id !== element.id &&
+      other.track === element.track &&
+      (side === "start"
+        ? Math.abs(other.end - element.start) < EDGE_EPSILON
+        : Math.abs(other.start - element.end) < EDGE_EPSILON)
+  );
+
+// Space between an edge and the nearest clip on the same track
+const getGap = (elements: TimelineElement[], element: TimelineElement, side: TrimSide) => {
+  const others = elements.filter((other) => other.id !== element.id && other.track === element.track);
+  if (side === "start") {
+    const ends = others.filter((other) => other.end <= element.start + EDGE_EPSILON).map((other) => other.end);
+    return element.start - Math.max(0, ...ends);
+  }
+  const starts = others.filter((other) => other.start >= element.end - EDGE_EPSILON).map((other) => other.start);
+  return starts.length > 0 ? Math.min(...starts) - element.end : Infinity;
+};
+
+const trimEdge = (element: TimelineElement, side: TrimSide, delta: number) =>
+  [moveEdge(element, side, clamp(delta, getEdgeRange(element, side)))];
+
+// Trim one edge and shift every later clip on the track by the change in
+// length. Trimming the start keeps the clip where it is and cuts its head.
+const rippleTrim = (elements: TimelineElement[], element: TimelineElement, side: TrimSide, delta: number) => {
+  let trimmed: TimelineElement;
+  let shift: number;
+  if (side === "start") {
+    // The clip doesn't move, so only the media limits how far the head extends
+    const min = -getMediaRoom(element, "start");
+    const amount = clamp(delta, [min, getEdgeRange(element, "start")[1]]);
+    trimmed = shiftElement(moveEdge(element, "start", amount), -amount);
+    shift = -amount;
+  } else {
+    trimmed = moveEdge(element, "end", clamp(delta, getEdgeRange(element, "end")));
+    shift = trimmed.end - element.end;
+  }
+
+  const later = elements.filter(
+    (other) => other.id !== element.id && other.track === element.track && other.start >= element.end - EDGE_EPSILON
+  );
+  return [trimmed, ...later.map((other) => shiftElement(other, shift))];
+};
+
+// Move the cut between the clip and the clip touching the dragged edge. A
+// clip with nothing touching that edge is trimmed instead.
+const rollEdit = (elements: TimelineElement[], element: TimelineElement, side: TrimSide, delta: number) => {
+  const neighbour = findNeighbour(elements, element, side);
+  if (!neighbour) return trimEdge(element, side, delta);
+
+  const [left, right] = side === "end" ? [element, neighbour] : [neighbour, element];
+  const amount = clamp(delta, intersect(getEdgeRange(left, "end"), getEdgeRange(right, "start")));
+  return [moveEdge(left, "end", amount), moveEdge(right, "start", amount)];
+};
+
+// Change which part of the media plays. Dragging right shows earlier media,
+// or later media in a clip played backwards.
+const slipElement = (element: TimelineElement, delta: number) => {
+  if (!isRangedElement(element)) return [];
+  const { sourceIn, sourceOut, originalDuration } = element.content;
+  const shift = clamp(delta * (element.speed || 1), [sourceOut - originalDuration, sourceIn]);
+  return [{ ...element, content: { ...element.content, sourceIn: sourceIn - shift, sourceOut: sourceOut - shift } } as RangedElement];
+};
+
+// Move the clip along the track. A clip touching either side gets shorter
+// or longer to make room; without one the clip only moves into empty space.
+const slideElement = (elements: TimelineElement[], element: TimelineElement, delta: number) => {
+  const before = findNeighbour(elements, element, "start");
+  const after = findNeighbour(elements, element, "end");
+
+  const beforeRange: Range = before ? getEdgeRange(before, "end") : [-getGap(elements, element, "start"), Infinity];
+  const afterRange: Range = after ? getEdgeRange(after, "start") : [-Infinity, getGap(elements, element, "end")];
+  const amount = clamp(delta, intersect(beforeRange, afterRange));
+
+  return [
+    shiftElement(element, amount),
+    ...(before ? [moveEdge(before, "end", amount)] : []),
+    ...(after ? [moveEdge(after, "start", amount)] : []),
+  ];
+};
+
+// Apply a trim drag to the elements as they were when the drag started.
+// Returns the elements it changes, clamped so no clip gets too short or
+// runs out of media.
+export const applyTrimEdit = (elements: TimelineElement[], edit: TrimEdit): TimelineElement[] => {
+  const element = elements.find((el) => el.id === edit.clipId);
+  if (!element) return [];
+
+  switch (edit.mode) {
+    case "slip":
+      return slipElement(element, edit.delta);
+    case "slide":
+      return slideElement(elements, element, edit.delta);
+    case "ripple":
+      return rippleTrim(elements, element, edit.side ?? "end", edit.delta);
+    case "roll":
+      return rollEdit(elements, element, edit.side ?? "end", edit.delta);
+    default:
+      return trimEdge(element, edit.side ?? "end", edit.delta);
+  }
+};
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end - EDGE_EPSILON && b.start < a.end - EDGE_EPSILON;
+
+// What's left of an element after cutting `start` to `end` out of it: the
+// head keeps the element's id and a tail after the cut gets a new one.
+// Pieces too short to keep are dropped.
+const cutOut = (element: TimelineElement, start: number, end: number): TimelineElement[] => {
+  const keepsHead = element.start < start - MIN_CLIP_DURATION;
+  const keepsTail = element.end > end + MIN_CLIP_DURATION;
+  if (keepsHead && keepsTail) {
+    const [head, rest] = splitElement(element, start, uuidv4());
+    return [head, trimElement(rest, end, rest.end)];
+  }
+  if (keepsHead) return [trimElement(element, element.start, start)];
+  if (keepsTail) return [trimElement(element, end, element.end)];
+  return [];
+};
+
+// The free start closest to `start` where a clip of `length` fits between `others`
+const findFreeStart = (others: TimelineElement[], start: number, length: number) => {
+  const candidates = [start, ...others.flatMap((other) => [other.end, other.start - length])];
+  const fits = candidates.filter(
+    (candidate) => candidate >= 0 && !others.some((other) => overlaps(other, { start: candidate, end: candidate + length }))
+  );
+  return fits.reduce((best, candidate) => (Math.abs(candidate - start) < Math.abs(best - start) ? candidate : best));
+};
+
+// Work out the operations that drop a clip at a new start and track. Returns
+// null when the clip can't go on that track, either track is locked or the
+// clip wouldn't move.
+export const planClipMove = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  move: ClipMove,
+  collision: CollisionMode
+): TimelineOperation[] | null => {
+  const element = elements.find((el) => el.id === move.clipId);
+  if (!element || !isCompatibleTrack(tracks, element.type, move.track)) return null;
+  if (isTrackLocked(tracks, element.track) || isTrackLocked(tracks, move.track)) return null;
+
+  const length = element.end - element.start;
+  const others = elements.filter((other) => other.id !== element.id && other.track === move.track);
+  // A magnetic track makes room by itself, see withMagneticTracks
+  const magnetic = !!tracks[move.track]?.magnetic;
+  const start = collision === "block" && !magnetic
+    ? findFreeStart(others, Math.max(0, move.start), length)
+    : Math.max(0, move.start);
+  if (Math.abs(start - element.start) < EDGE_EPSILON && move.track === element.track) return null;
+
+  const moved = { ...element, start, end: start + length, track: move.track };
+  const updates: TimelineElement[] = [moved];
+  const removed: string[] = [];
+  const inserted: { element: TimelineElement; index: number }[] = [];
+  const addPiece = (after: TimelineElement, piece: TimelineElement) =>
+    inserted.push({ element: piece, index: elements.indexOf(after) + 1 + inserted.length });
+
+  if (collision === "overwrite" && !magnetic) {
+    others.filter((other) => overlaps(other, moved)).forEach((other) => {
+      const [head, tail] = cutOut(other, moved.start, moved.end);
+      if (!head) removed.push(other.id);
+      else updates.push(head);
+      if (tail) addPiece(other, tail);
+    });
+  } else if (collision === "insert" && !magnetic) {
+    // Clips after the drop point move later; one straddling it is cut there
+    others.forEach((other) => {
+      if (other.end <= start + EDGE_EPSILON) return;
+      if (canSplitAt(other, start)) {
+        const [head, tail] = splitElement(other, start, uuidv4());
+        updates.push(head);
+        addPiece(other, shiftElement(tail, length));
+      } else if (other.start > start - MIN_CLIP_DURATION) {
+        updates.push(shiftElement(other, length));
+      } else {
+        updates.push(trimElement(other, other.start, start));
+      }
+    });
+  }
+
+  const operations: TimelineOperation[] = [];
+  if (inserted.length > 0) operations.push({ type: "insert", items: inserted });
+  operations.push({ type: "update", elements: updates });
+  if (removed.length > 0) operations.push({ type: "remove", ids: removed });
+  return operations;
+};
+
+// Work out the operations that insert `still`, a freeze frame of `element`,
+// where it starts: the clip is split around it and later clips on the track
+// move along to make room.
+export const planFreezeFrame = (
+  elements: TimelineElement[],
+  element: TimelineElement,
+  still: TimelineElement
+): TimelineOperation[] => {
+  const time = still.start;
+  const length = still.end - still.start;
+  const updates: TimelineElement[] = [];
+  const inserted: { element: TimelineElement; index: number }[] = [
+    { element: still, index: elements.indexOf(element) + 1 },
+  ];
+
+  elements.forEach((other) => {
+    if (other.track !== element.track || other.end <= time + EDGE_EPSILON) return;
+    if (canSplitAt(other, time)) {
+      const [head, tail] = splitElement(other, time, uuidv4());
+      updates.push(head);
+      inserted.push({ element: shiftElement(tail, length), index: elements.indexOf(other) + 1 + inserted.length });
+    } else if (other.start > time - MIN_CLIP_DURATION) {
+      updates.push(shiftElement(other, length));
+    } else {
+      updates.push(trimElement(other, other.start, time));
+    }
+  });
+
+  const operations: TimelineOperation[] = [{ type: "insert", items: inserted }];
+  if (updates.length > 0) operations.push({ type: "update", elements: updates });
+  return operations;
+};
+
+// Move several clips by as much as the dragged one moved, keeping their
+// layout. The group moves between tracks only when every clip fits on the
+// track it would land on. Other clips aren't pushed aside: returns null when
+// the group would land on one, or when a clip is on a locked track.
+export const planGroupMove = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  ids: string[],
+  move: ClipMove
+): TimelineOperation[] | null => {
+  const dragged = elements.find((el) => el.id === move.clipId);
+  const group = elements.filter((el) => ids.includes(el.id));
+  if (!dragged || group.some((el) => isTrackLocked(tracks, el.track))) return null;
+
+  const delta = Math.max(move.start - dragged.start, -Math.min(...group.map((el) => el.start)));
+  const trackOffset = move.track - dragged.track;
+  const fitsTracks = group.every(
+    (el) => isCompatibleTrack(tracks, el.type, el.track + trackOffset) && !isTrackLocked(tracks, el.track + trackOffset)
+  );
+  const offset = fitsTracks ? trackOffset : 0;
+  if (Math.abs(delta) < EDGE_EPSILON && offset === 0) return null;
+
+  const moved = group.map((el) => ({ ...shiftElement(el, delta), track: el.track + offset }));
+  const others = elements.filter((el) => !ids.includes(el.id));
+  const collides = (el: TimelineElement) =>
+    !tracks[el.track]?.magnetic && others.some((other) => other.track === el.track && overlaps(other, el));
+  if (moved.some(collides)) return null;
+  return [{ type: "update", elements: moved }];
+};
+
+// Plan a clip drag: a selected clip takes the rest of the selection with it
+export const planSelectionMove = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  selectedIds: string[],
+  move: ClipMove,
+  collision: CollisionMode
+) =>
+  selectedIds.length > 1 && selectedIds.includes(move.clipId)
+    ? planGroupMove(elements, tracks, selectedIds, move)
+    : planClipMove(elements, tracks, move, collision);
+
+// Edits to a time range across every unlocked track:
+// - lift: delete what's in the range and leave a gap
+// - extract: delete what's in the range and close the gap
+// - crop: keep only the range, moved to the start of the timeline
+export type RangeEdit = "lift" | "extract" | "crop";
+
+export const RANGE_EDIT_LABELS: Record<RangeEdit, string> = {
+  lift: "Lift range",
+  extract: "Extract range",
+  crop: "Crop to range",
+};
+
+// Work out the operations for a range edit. Clips on locked tracks stay
+// where they are. Extract and crop also move the markers after the range
+// and drop the ones cut away. Returns null when nothing would change.
+export const planRangeEdit = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  markers: Marker[],
+  [start, end]: Range,
+  edit: RangeEdit
+): TimelineOperation[] | null => {
+  const length = end - start;
+  const updates: TimelineElement[] = [];
+  const removed: string[] = [];
+  const inserted: { element: TimelineElement; index: number }[] = [];
+
+  elements.forEach((element, index) => {
+    if (isTrackLocked(tracks, element.track)) return;
+
+    if (edit === "crop") {
+      if (!overlaps(element, { start, end })) {
+        removed.push(element.id);
+      } else if (element.start < start - EDGE_EPSILON || element.end > end + EDGE_EPSILON) {
+        const trimmed = trimElement(element, Math.max(start, element.start), Math.min(end, element.end));
+        updates.push(shiftElement(trimmed, -start));
+      } else if (start > EDGE_EPSILON) {
+        updates.push(shiftElement(element, -start));
+      }
+      return;
+    }
+
+    // Extract pulls everything after the range back by its length
+    const close = (piece: TimelineElement) =>
+      edit === "extract" && piece.start >= end - EDGE_EPSILON ? shiftElement(piece, -length) : piece;
+
+    if (overlaps(element, { start, end })) {
+      const [head, tail] = cutOut(element, start, end);
+      if (!head) removed.push(element.id);
+      else updates.push(close(head));
+      if (tail) inserted.push({ element: close(tail), index: index + 1 + inserted.length });
+    } else if (edit === "extract" && element.start >= end - EDGE_EPSILON) {
+      updates.push(close(element));
+    }
+  });
+
+  let movedMarkers: Marker[] | null = null;
+  if (edit === "crop") {
+    movedMarkers = markers
+      .filter((marker) => marker.time >= start - EDGE_EPSILON && marker.time <= end + EDGE_EPSILON)
+      .map((marker) => ({ ...marker, time: Math.max(0, marker.time - start) }));
+  } else if (edit === "extract") {
+    movedMarkers = markers
+      .filter((marker) => marker.time <= start + EDGE_EPSILON || marker.time >= end - EDGE_EPSILON)
+      .map((marker) => (marker.time >= end - EDGE_EPSILON ? { ...marker, time: marker.time - length } : marker));
+  }
+  const markersChanged =
+    movedMarkers !== null &&
+    (movedMarkers.length !== markers.length || movedMarkers.some((marker, i) => marker.time !== markers[i].time));
+
+  const operations: TimelineOperation[] = [];
+  if (inserted.length > 0) operations.push({ type: "insert", items: inserted });
+  if (updates.length > 0) operations.push({ type: "update", elements: updates });
+  if (removed.length > 0) operations.push({ type: "remove", ids: removed });
+  if (markersChanged) operations.push({ type: "markers", markers: movedMarkers });
+  return operations.length > 0 ? operations : null;
+};
+
+// An empty stretch of a track before or between its clips
+export interface TimelineGap {
+  track: number;
+  start: number;
+  end: number;
+}
+
+export const findGaps = (clips: { start: number; end: number; track: number }[], trackCount: number) =>
+  Array.from({ length: trackCount }).flatMap((_, track) => {
+    const gaps: TimelineGap[] = [];
+    let end = 0;
+    clips
+      .filter((clip) => clip.track === track)
+      .sort((a, b) => a.start - b.start)
+      .forEach((clip) => {
+        if (clip.start > end + EDGE_EPSILON) gaps.push({ track, start: end, end: clip.start });
+        end = Math.max(end, clip.end);
+      });
+    return gaps;
+  });
+
+// Lay a track's clips end to end from 0, in order of their starts, which
+// also pulls apart clips that overlap. Clips in `first` go before others
+// that start at the same time. Returns the clips that move.
+const packTrack = (elements: TimelineElement[], track: number, first: string[] = []) => {
+  const isFirst = (el: TimelineElement) => (first.includes(el.id) ? 1 : 0);
+  const moved: TimelineElement[] = [];
+  let end = 0;
+  elements
+    .filter((el) => el.track === track)
+    .sort((a, b) => a.start - b.start || isFirst(b) - isFirst(a))
+    .forEach((el) => {
+      if (Math.abs(el.start - end) > EDGE_EPSILON) moved.push(shiftElement(el, end - el.start));
+      end += el.end - el.start;
+    });
+  return moved;
+};
+
+// Close every gap on the unlocked tracks, or just `gap`, by pulling the
+// later clips back. Returns null when there's nothing to close.
+export const planCloseGaps = (
+  elements: TimelineElement[],
+  tracks: Track[],
+  gap?: TimelineGap
+): TimelineOperation[] | null => {
+  const moved = gap
+    ? isTrackLocked(tracks, gap.track)
+      ? []
+      : elements
+          .filter((el) => el.track === gap.track && el.start >= gap.end - EDGE_EPSILON)
+          .map((el) => shiftElement(el, gap.start - gap.end))
+    : tracks.flatMap((track, index) => (track.locked ? [] : packTrack(elements, index)));
+  return moved.length > 0 ? [{ type: "update", elements: moved }] : null;
+};
+
+// Add the moves that keep magnetic tracks packed after `operations`. Clips
+// the operations insert or change win ties, so a clip dropped where
+// another starts goes before it and pushes it along.
+export const withMagneticTracks = (state: TimelineState, operations: TimelineOperation[]): TimelineOperation[] => {
+  const after = applyOperations(state, operations);
+  const changed = operations.flatMap((operation) =>
+    operation.type === "insert"
+      ? operation.items.map((item) => item.element.id)
+      : operation.type === "update"
+        ? operation.elements.map((element) => element.id)
+        : []
+  );
+  const moved = after.tracks.flatMap((track, index) =>
+    track.magnetic && !track.locked ? packTrack(after.elements, index, changed) : []
+  );
+  return moved.length > 0 ? [...operations, { type: "update", elements: moved }] : operations;
+};
@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import { Marker, TextElement } from "@/types/timeline";
+import { createTrack } from "@/lib/tracks";
+import {
+  TimelineCommand,
+  TimelineHistory,
+  TimelineOperation,
+  createHistory,
+  executeCommand,
+  jumpHistory,
+  redoHistory,
+  trimHistory,
+  undoHistory,
+} from "@/lib/timelineHistory";
+
+const text = (id: string, start = 0, end = 5): TextElement => ({
+  id,
+  type: "text",
+  name: id,
+  start,
+  end,
+  track: 0,
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 50,
+  rotation: 0,
+  speed: 1,
+  content: {
+    text: id,
+    fontSize: 24,
+    fontWeight: "normal",
+    fontStyle: "normal",
+    color: "#ffffff",
+    alignment: "center",
+  },
+});
+
+const marker: Marker = { id: "marker-1", time: 2, name: "Cut", color: "#ff0000", notes: "" };
+
+const command = (label: string, operations: TimelineOperation[], mergeKey?: string): TimelineCommand => ({
+  label,
+  operations,
+  mergeKey,
+});
+
+// A command that moves an element to `start`
+const move = (element: TextElement, start: number, mergeKey?: string) =>
+  command(`Move ${element.id}`, [{ type: "update", elements: [{ ...element, start, end: start + 5 }] }], mergeKey);
+
+const run = (history: TimelineHistory, ...commands: TimelineCommand[]) =>
+  commands.reduce((current, next) => executeCommand(current, next), history);
+
+const labels = (history: TimelineHistory) => history.entries.map((entry) => entry.label);
+
+describe("executeCommand", () => {
+  const a = text("a");
+  const b = text("b");
+
+  it.each<[string, TimelineOperation]>([
+    ["insert", { type: "insert", items: [{ element: b, index: 0 }] }],
+    ["remove", { type: "remove", ids: ["a"] }],
+    ["update", { type: "update", elements: [{ ...a, start: 2, end: 7 }] }],
+    ["tracks", { type: "tracks", tracks: [createTrack("visual", "Video 1")] }],
+    ["markers", { type: "markers", markers: [marker] }],
+  ])("undoes and redoes %s operations", (_, operation) => {
+    const initial = createHistory([a], [createTrack("audio", "Audio 1")], []);
+    const done = executeCommand(initial, command("Edit", [operation]));
+    const undone = undoHistory(done);
+
+    expect(undone.elements).toEqual(initial.elements);
+    expect(undone.tracks).toEqual(initial.tracks);
+    expect(undone.markers).toEqual(initial.markers);
+    expect(redoHistory(undone).elements).toEqual(done.elements);
+    expect(redoHistory(undone).tracks).toEqual(done.tracks);
+    expect(redoHistory(undone).markers).toEqual(done.markers);
+  });
+
+  it("inserts elements at their indexes and puts removed ones back where they were", () => {
+    const c = text("c");
+    const inserted = executeCommand(
+      createHistory([a, c]),
+      command("Add", [{ type: "insert", items: [{ element: b, index: 1 }] }])
+    );
+    expect(inserted.elements.map((el) => el.id)).toEqual(["a", "b", "c"]);
+
+    const removed = executeCommand(inserted, command("Delete", [{ type: "remove", ids: ["b"] }]));
+    expect(undoHistory(removed).elements.map((el) => el.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("undoes the operations of one command in reverse order", () => {
+    const history = executeCommand(
+      createHistory([a]),
+      command("Add and move", [
+        { type: "insert", items: [{ element: b, index: 1 }] },
+        { type: "update", elements: [{ ...b, start: 3, end: 8 }] },
+      ])
+    );
+
+    expect(history.elements[1].start).toBe(3);
+    expect(undoHistory(history).elements).toEqual([a]);
+  });
+
+  it("merges commands with the same key into one step", () => {
+    const history = run(createHistory([a]), move(a, 1, "move:1"), move(a, 2, "move:1"), move(a, 3, "move:1"));
+
+    expect(history.entries).toHaveLength(1);
+    expect(history.index).toBe(1);
+    expect(history.elements[0].start).toBe(3);
+    expect(undoHistory(history).elements).toEqual([a]);
+  });
+
+  it("compacts merged updates into one operation per direction", () => {
+    const history = run(createHistory([a]), move(a, 1, "move:1"), move(a, 2, "move:1"));
+    const [entry] = history.entries;
+
+    expect(entry.redo).toEqual([{ type: "update", elements: [{ ...a, start: 2, end: 7 }] }]);
+    expect(entry.undo).toEqual([{ type: "update", elements: [a] }]);
+  });
+
+  it("keeps the last track list when merging track changes", () => {
+    const first = [createTrack("visual", "Video 1")];
+    const second = [createTrack("visual", "Video 2")];
+    const history = run(
+      createHistory([], first),
+      command("Resize track", [{ type: "tracks", tracks: [{ ...first[0], height: 60 }] }], "height:1"),
+      command("Resize track", [{ type: "tracks", tracks: second }], "height:1")
+    );
+
+    expect(history.entries[0].redo).toEqual([{ type: "tracks", tracks: second }]);
+    expect(undoHistory(history).tracks).toEqual(first);
+  });
+
+  it("keeps different gestures and commands without a key apart", () => {
+    const history = run(createHistory([a]), move(a, 1, "move:1"), move(a, 2, "move:2"), move(a, 3), move(a, 4));
+
+    expect(history.entries).toHaveLength(4);
+  });
+
+  it("doesn't merge into a step that was undone", () => {
+    const history = run(createHistory([a]), move(a, 1, "move:1"), move(a, 2, "move:2"));
+    const next = executeCommand(undoHistory(history), move(a, 3, "move:2"));
+
+    expect(next.entries).toHaveLength(2);
+    expect(next.entries[1].id).not.toBe(history.entries[1].id);
+  });
+
+  it("drops undone steps and records them as a branch", () => {
+    const history = run(createHistory([a]), move(a, 1), move(a, 2), move(a, 3));
+    const branched = executeCommand(jumpHistory(history, 1), move(b, 4));
+
+    expect(labels(branched)).toEqual(["Move a", "Move b"]);
+    expect(branched.branch).toEqual({ index: 1, labels: ["Move a", "Move a"] });
+  });
+
+  it("records a branch off the initial state", () => {
+    const history = run(createHistory([a]), move(a, 1));
+    const branched = executeCommand(undoHistory(history), move(a, 2));
+
+    expect(branched.branch).toEqual({ index: 0, labels: ["Move a"] });
+  });
+
+  it("keeps the branch while a gesture goes on", () => {
+    const history = run(createHistory([a]), move(a, 1), move(a, 2));
+    const dragged = run(undoHistory(history), move(a, 3, "move:1"), move(a, 4, "move:1"), move(a, 5, "move:1"));
+
+    expect(dragged.branch).toEqual({ index: 1, labels: ["Move a"] });
+  });
+
+  it("keeps at most `limit` steps, dropping the oldest", () => {
+    const history = [1, 2, 3, 4].reduce(
+      (current, start) => executeCommand(current, move(a, start), 3),
+      createHistory([a])
+    );
+
+    expect(history.entries).toHaveLength(3);
+    expect(history.index).toBe(3);
+    expect(history.elements[0].start).toBe(4);
+    expect(jumpHistory(history, 0).elements[0].start).toBe(1);
+  });
+});
+
+describe("trimHistory", () => {
+  const a = text("a");
+  const history = run(createHistory([a]), move(a, 1), move(a, 2), move(a, 3), move(a, 4), move(a, 5));
+
+  it("leaves a history within the limit alone", () => {
+    expect(trimHistory(history, 5)).toBe(history);
+  });
+
+  it("drops the oldest undo steps first", () => {
+    const trimmed = trimHistory(history, 2);
+
+    expect(trimmed.entries).toEqual(history.entries.slice(3));
+    expect(trimmed.index).toBe(2);
+  });
+
+  it("then drops the furthest redo steps", () => {
+    const trimmed = trimHistory(jumpHistory(history, 1), 2);
+
+    expect(trimmed.entries).toEqual(history.entries.slice(1, 3));
+    expect(trimmed.index).toBe(0);
+  });
+
+  it("keeps at least one step", () => {
+    expect(trimHistory(history, 0).entries).toHaveLength(1);
+  });
+
+  it("moves the branch with the entries that are kept", () => {
+    const branched: TimelineHistory = { ...history, branch: { index: 4, labels: ["Move b"] } };
+
+    expect(trimHistory(branched, 2).branch).toEqual({ index: 1, labels: ["Move b"] });
+    expect(trimHistory(branched, 1).branch).toEqual({ index: 0, labels: ["Move b"] });
+  });
+
+  it("drops a branch whose steps are gone", () => {
+    const branched: TimelineHistory = { ...history, branch: { index: 2, labels: ["Move b"] } };
+
+    expect(trimHistory(branched, 2).branch).toBeUndefined();
+  });
+});
+
+describe("jumpHistory", () => {
+  const a = text("a");
+  const history = run(createHistory([a]), move(a, 1), move(a, 2), move(a, 3));
+
+  it("undoes back to a step", () => {
+    const jumped = jumpHistory(history, 1);
+
+    expect(jumped.index).toBe(1);
+    expect(jumped.elements[0].start).toBe(1);
+    expect(jumped.entries).toBe(history.entries);
+  });
+
+  it("redoes forward to a step", () => {
+    const jumped = jumpHistory(jumpHistory(history, 0), 2);
+
+    expect(jumped.index).toBe(2);
+    expect(jumped.elements[0].start).toBe(2);
+  });
+
+  it("clamps to the steps there are", () => {
+    expect(jumpHistory(history, -3).elements).toEqual([a]);
+    expect(jumpHistory(jumpHistory(history, 0), 10).index).toBe(3);
+  });
+});
@@ -0,0 +1,255 @@
+import { v4 as uuidv4 } from "uuid";
+import { Marker, TimelineElement, Track } from "@/types/timeline";
+
+/*
+ * Command history for the timeline
+ *
+ * Every edit is a list of operations applied to the elements array, the
+ * track list and the markers. Applying an operation also yields its inverse,
+ * so each history entry stores both the operations that redo it and the ones
+ * that undo it.
+ * Commands with the same `mergeKey` that follow each other are merged into
+ * one undo step. Callers put a gesture id in the key (e.g. one per drag,
+ * ending on pointer-up), so a drag is one step however long it pauses and
+ * two drags are never merged.
+ */
+
+export type TimelineOperation =
+  // Insert elements at their indexes, lowest index first
+  | { type: "insert"; items: { element: TimelineElement; index: number }[] }
+  | { type: "remove"; ids: string[] }
+  // Replace elements with the same ids
+  | { type: "update"; elements: TimelineElement[] }
+  // Replace the whole track list
+  | { type: "tracks"; tracks: Track[] }
+  // Replace all markers
+  | { type: "markers"; markers: Marker[] };
+
+// What the operations apply to
+export interface TimelineState {
+  elements: TimelineElement[];
+  tracks: Track[];
+  markers: Marker[];
+}
+
+export interface TimelineCommand {
+  label: string;
+  operations: TimelineOperation[];
+  // Consecutive commands with the same key are merged into one step
+  mergeKey?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  redo: TimelineOperation[];
+  undo: TimelineOperation[];
+  mergeKey?: string;
+}
+
+// Steps that were undone and then dropped by a new edit, kept for display
+export interface HistoryBranch {
+  // Number of entries before the point where the new edit branched off
+  index: number;
+  labels: string[];
+}
+
+export interface TimelineHistory extends TimelineState {
+  entries: HistoryEntry[];
+  // Number of entries currently applied; entries after it can be redone
+  index: number;
+  branch?: HistoryBranch;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+// How an element is named in history labels, e.g. "Move Text" or "Trim clip 'beach.mp4'"
+export const describeElement = (element: TimelineElement) =>
+  element.type === "text" ? "Text" : `clip '${element.name}'`;
+
+// Several elements are counted, e.g. "Delete 3 clips"
+export const describeElements = (elements: TimelineElement[]) =>
+  elements.length === 1 ? describeElement(elements[0]) : `${elements.length} clips`;
+
+export const createHistory = (
+  elements: TimelineElement[] = [],
+  tracks: Track[] = [],
+  markers: Marker[] = []
+): TimelineHistory => ({
+  elements,
+  tracks,
+  markers,
+  entries: [],
+  index: 0,
+});
+
+// Apply one operation and return the result with the operation that undoes it
+const applyOperation = (
+  state: TimelineState,
+  operation: TimelineOperation
+): { state: TimelineState; inverse: TimelineOperation } => {
+  const { elements } = state;
+  switch (operation.type) {
+    case "insert": {
+      const next = [...elements];
+      [...operation.items]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ element, index }) => next.splice(Math.min(index, next.length), 0, element));
+      return {
+        state: { ...state, elements: next },
+        inverse: { type: "remove", ids: operation.items.map((item) => item.element.id) },
+      };
+    }
+    case "remove": {
+      const ids = new Set(operation.ids);
+      const items = elements
+        .map((element, index) => ({ element, index }))
+        .filter(({ element }) => ids.has(element.id));
+      return {
+        state: { ...state, elements: elements.filter((element) => !ids.has(element.id)) },
+        inverse: { type: "insert", items },
+      };
+    }
+    case "update": {
+      const updates = new Map(operation.elements.map((element) => [element.id, element]));
+      const previous = elements.filter((element) => updates.has(element.id));
+      return {
+        state: { ...state, elements: elements.map((element) => updates.get(element.id) ?? element) },
+        inverse: { type: "update", elements: previous },
+      };
+    }
+    case "tracks":
+      return {
+        state: { ...state, tracks: operation.tracks },
+        inverse: { type: "tracks", tracks: state.tracks },
+      };
+    case "markers":
+      return {
+        state: { ...state, markers: operation.markers },
+        inverse: { type: "markers", markers: state.markers },
+      };
+  }
+};
+
+// Apply operations in order; the inverse operations are returned in undo order
+export const applyOperations = (state: TimelineState, operations: TimelineOperation[]) => {
+  const inverses: TimelineOperation[] = [];
+  const result = operations.reduce((current, operation) => {
+    const applied = applyOperation(current, operation);
+    inverses.unshift(applied.inverse);
+    return applied.state;
+  }, state);
+  return { ...result, inverses };
+};
+
+// Collapse a run of updates into one, keeping the last version of each
+// element, or a run of track or marker changes into the last one
+const compactOperations = (operations: TimelineOperation[]): TimelineOperation[] => {
+  if (operations.every((operation) => operation.type === "tracks")) return operations.slice(-1);
+  if (operations.every((operation) => operation.type === "markers")) return operations.slice(-1);
+  if (!operations.every((operation) => operation.type === "update")) return operations;
+  const latest = new Map<string, TimelineElement>();
+  operations.forEach((operation) => {
+    if (operation.type === "update") operation.elements.forEach((element) => latest.set(element.id, element));
+  });
+  return [{ type: "update", elements: [...latest.values()] }];
+};
+
+// Run a command and record it, dropping any entries that were undone
+export const executeCommand = (
+  history: TimelineHistory,
+  command: TimelineCommand,
+  limit = DEFAULT_HISTORY_LIMIT
+): TimelineHistory => {
+  const { elements, tracks, markers, inverses } = applyOperations(history, command.operations);
+  const last = history.entries[history.index - 1];
+
+  const canMerge =
+    command.mergeKey !== undefined &&
+    last?.mergeKey === command.mergeKey &&
+    history.index === history.entries.length;
+
+  if (canMerge) {
+    const merged: HistoryEntry = {
+      ...last,
+      redo: compactOperations([...last.redo, ...command.operations]),
+      undo: compactOperations([...inverses, ...last.undo]),
+    };
+    return { ...history, elements, tracks, markers, entries: [...history.entries.slice(0, -1), merged] };
+  }
+
+  const entry: HistoryEntry = {
+    id: uuidv4(),
+    label: command.label,
+    redo: command.operations,
+    undo: inverses,
+    mergeKey: command.mergeKey,
+  };
+  const discarded = history.entries.slice(history.index);
+  const branch = discarded.length > 0
+    ? { index: history.index, labels: discarded.map((item) => item.label) }
+    : history.branch;
+
+  return trimHistory(
+    {
+      elements,
+      tracks,
+      markers,
+      entries: [...history.entries.slice(0, history.index), entry],
+      index: history.index + 1,
+      branch,
+    },
+    limit
+  );
+};
+
+// Keep at most `limit` entries, dropping the oldest undo steps first and
+// then the furthest redo steps
+export const trimHistory = (history: TimelineHistory, limit: number): TimelineHistory => {
+  const size = Math.max(1, limit);
+  if (history.entries.length <= size) return history;
+
+  const start = Math.min(history.entries.length - size, history.index);
+  const branchIndex = history.branch ? history.branch.index - start : -1;
+  return {
+    ...history,
+    entries: history.entries.slice(start, start + size),
+    index: history.index - start,
+    branch: branchIndex >= 0 && branchIndex <= size ? { ...history.branch, index: branchIndex } : undefined,
+  };
+};
+
+export const undoHistory = (history: TimelineHistory): TimelineHistory => {
+  if (history.index === 0) return history;
+  const entry = history.entries[history.index - 1];
+  const { elements, tracks, markers } = applyOperations(history, entry.undo);
+  return {
+    ...history,
+    elements,
+    tracks,
+    markers,
+    index: history.index - 1,
+  };
+};
+
+export const redoHistory = (history: TimelineHistory): TimelineHistory => {
+  if (history.index >= history.entries.length) return history;
+  const entry = history.entries[history.index];
+  const { elements, tracks, markers } = applyOperations(history, entry.redo);
+  return {
+    ...history,
+    elements,
+    tracks,
+    markers,
+    index: history.index + 1,
+  };
+};
+
+// Undo or redo until `index` entries are applied
+export const jumpHistory = (history: TimelineHistory, index: number): TimelineHistory => {
+  const target = Math.max(0, Math.min(index, history.entries.length));
+  let current = history;
+  while (current.index > target) current = undoHistory(current);
+  while (current.index < target) current = redoHistory(current);
+  return current;
+};
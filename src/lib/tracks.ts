@@ -0,0 +1,89 @@
+import { v4 as uuidv4 } from "uuid";
+import { ElementType, TimelineElement, Track, TrackKind } from "@/types/timeline";
+import { TimelineOperation } from "@/lib/timelineHistory";
+
+export const DEFAULT_TRACK_HEIGHT = 38;
+export const MIN_TRACK_HEIGHT = 28;
+export const MAX_TRACK_HEIGHT = 120;
+
+export const createTrack = (kind: TrackKind, name: string): Track => ({
+  id: uuidv4(),
+  name,
+  kind,
+  height: DEFAULT_TRACK_HEIGHT,
+  locked: false,
+  hidden: false,
+  muted: false,
+  solo: false,
+  magnetic: false,
+});
+
+// Two visual tracks above one audio track, the layout projects had before
+// tracks could be changed
+export const createDefaultTracks = () => [
+  createTrack("visual", "Video 1"),
+  createTrack("visual", "Video 2"),
+  createTrack("audio", "Audio 1"),
+];
+
+export const getTrackKind = (type: ElementType): TrackKind => (type === "audio" ? "audio" : "visual");
+
+export const isCompatibleTrack = (tracks: Track[], type: ElementType, index: number) =>
+  tracks[index]?.kind === getTrackKind(type);
+
+export const isTrackLocked = (tracks: Track[], index: number) => !!tracks[index]?.locked;
+
+// Elements on a track that isn't in the list are shown and heard
+export const isTrackVisible = (tracks: Track[], index: number) => !tracks[index]?.hidden;
+
+export const isTrackAudible = (tracks: Track[], index: number) => {
+  const track = tracks[index];
+  if (!track) return true;
+  if (track.muted) return false;
+  return track.solo || !tracks.some((other) => other.solo);
+};
+
+// Elements in the order they are drawn: the last track first, so the first
+// track ends up in front. Elements on the same track keep their order.
+export const sortByTrackOrder = (elements: TimelineElement[]) =>
+  [...elements].sort((a, b) => b.track - a.track);
+
+// The first unlocked track an element of this type can go on, or -1
+export const findTrackFor = (tracks: Track[], type: ElementType) =>
+  tracks.findIndex((track) => track.kind === getTrackKind(type) && !track.locked);
+
+// "Video 3", "Audio 2", ... numbered after the tracks of that kind
+export const getNewTrackName = (tracks: Track[], kind: TrackKind) => {
+  const prefix = kind === "audio" ? "Audio" : "Video";
+  const numbers = tracks
+    .map((track) => track.name.match(new RegExp(`^${prefix} (\\d+)$`)))
+    .filter(Boolean)
+    .map((match) => Number(match[1]));
+  return `${prefix} ${Math.max(tracks.filter((track) => track.kind === kind).length, ...numbers) + 1}`;
+};
+
+// New visual tracks go below the other visual tracks and audio tracks at the bottom
+export const getNewTrackIndex = (tracks: Track[], kind: TrackKind) => {
+  if (kind === "audio") return tracks.length;
+  const lastVisual = tracks.map((track) => track.kind).lastIndexOf("visual");
+  return lastVisual + 1;
+};
+
+// Operations that replace the track list, moving elements along with their
+// tracks. Elements whose track is no longer in `next` must be removed first.
+export const replaceTracks = (
+  elements: TimelineElement[],
+  previous: Track[],
+  next: Track[]
+): TimelineOperation[] => {
+  const newIndexes = new Map(next.map((track, index) => [track.id, index]));
+  const moved = elements
+    .filter((element) => previous[element.track] && newIndexes.has(previous[element.track].id))
+    .map((element) => ({ element, track: newIndexes.get(previous[element.track].id) }))
+    .filter(({ element, track }) => element.track !== track)
+    .map(({ element, track }) => ({ ...element, track }));
+
+  const operations: TimelineOperation[] = [{ type: "tracks", tracks: next }];
+  if (moved.length > 0) operations.push({ type: "update", elements: moved });
+  return operations;
+};
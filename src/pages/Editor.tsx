@@ -0,0 +1,10 @@
+import { useParams } from "react-router-dom";
+import Index from "./Index";
+
+// Remount the editor whenever a different project is opened
+const Editor = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  return <Index key={projectId} projectId={projectId} />;
+};
+
+export default Editor;
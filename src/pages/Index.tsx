@@ -1,5 +1,7 @@
-import { useEffect, useState } from "react";
-import { Trash, Upload, Merge, Music, Save, Download, Play, Pause, TextIcon, ImageIcon, Layers, ZoomIn, ZoomOut, Crop, AudioLines } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { v4 as uuidv4 } from "uuid";
+import { Trash, Upload, Merge, Music, Save, Download, Play, Pause, TextIcon, ImageIcon, Layers, ZoomIn, ZoomOut, Crop, AudioLines, History, Bookmark } from "lucide-react";
 
 import Header from "@/components/Layout/Header";
 import Canvas from "@/components/Editor/Canvas";
@@ -12,23 +14,62 @@ import Preview from "@/components/Editor/Preview";
 import SpeedControl from "@/components/Editor/SpeedControl";
 import AudioControl from "@/components/Editor/AudioControl";
 import CropTool from "@/components/Editor/CropTool";
+import ExportDialog from "@/components/Editor/ExportDialog";
+import RecoveryDialog from "@/components/Editor/RecoveryDialog";
+import HistoryPanel from "@/components/Editor/HistoryPanel";
+import MarkersPanel from "@/components/Editor/MarkersPanel";
 import Panel from "@/components/UI/Panel";
 import IconButton from "@/components/UI/IconButton";
 
 import useMediaLibrary from "@/hooks/useMediaLibrary";
 import useTimeline from "@/hooks/useTimeline";
 import useEditor from "@/hooks/useEditor";
+import useAutosave from "@/hooks/useAutosave";
+import useProjectBundle from "@/hooks/useProjectBundle";
+import useKeyboardShortcuts from "@/hooks/useKeyboardShortcuts";
+import useClipboardEvents from "@/hooks/useClipboardEvents";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { ToolType } from "@/types/timeline";
+import { ClipMove, CollisionMode, TextContent, TimelineElement, ToolType, TrimMode, VideoElement, isMediaElement } from "@/types/timeline";
+import { MediaItem } from "@/types/media";
+import { ExportFormat, captureVideoFrame } from "@/lib/exporter";
+import { getVisibleElements } from "@/lib/compositor";
+import { BUNDLE_EXTENSION } from "@/lib/projectBundle";
+import { clearAutosave, readAutosave, readProject, restoreProjectMedia } from "@/lib/projectStorage";
+import { ProjectFile } from "@/lib/projectFile";
+import { RangeEdit, planSelectionMove, withMagneticTracks } from "@/lib/timelineEdits";
+import { applyOperations } from "@/lib/timelineHistory";
+import { findAdjacentMarker } from "@/lib/markers";
+import { getMergeError, getMergeOrder, renderMergedVideo } from "@/lib/merge";
+import { isTrackLocked } from "@/lib/tracks";
+import { ClipboardContent, parseClipboard, restoreClipboardMedia, serializeClipboard } from "@/lib/clipboard";
 
-const Index = () => {
+// Frame rates merged videos can be rendered at
+const MERGE_FPS_OPTIONS = [24, 30, 60];
+
+interface IndexProps {
+  projectId?: string;
+}
+
+const Index = ({ projectId }: IndexProps) => {
   const isMobile = useIsMobile();
+  const navigate = useNavigate();
   const [timelineZoom, setTimelineZoom] = useState(1);
   const [activePanel, setActivePanel] = useState<string | null>(null);
   const [selectedVideosForMerge, setSelectedVideosForMerge] = useState<string[]>([]);
-  const [isExporting, setIsExporting] = useState(false);
+  // Render progress while merged videos are being made, from 0 to 1
+  const [mergeProgress, setMergeProgress] = useState<number | null>(null);
+  const [mergeFps, setMergeFps] = useState(30);
+  const [trimMode, setTrimMode] = useState<TrimMode>("trim");
+  const [collisionMode, setCollisionMode] = useState<CollisionMode>("block");
+  const [snapping, setSnapping] = useState(true);
+  const [clipMove, setClipMove] = useState<ClipMove | null>(null);
+  const [selectedMarkerId, setSelectedMarkerId] = useState<string | null>(null);
+  const [loopRange, setLoopRange] = useState<[number, number] | null>(null);
+  // Length of new freeze frames, in seconds
+  const [freezeFrameLength, setFreezeFrameLength] = useState(2);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [sidebarWidth, setSidebarWidth] = useState(220);
   
   const {
@@ -36,36 +77,77 @@ const Index = () => {
     audioItems,
     isLoading: isMediaLoading,
     addMedia,
+    addMediaItems,
     removeMedia,
+    restoreMedia,
   } = useMediaLibrary();
   
   const {
     elements,
+    tracks,
+    markers,
+    projectElements,
+    projectTracks,
+    projectMarkers,
+    openCompounds,
     selectedElementId,
+    selectedElementIds,
     currentTime,
     duration,
     isPlaying,
     setSelectedElementId,
+    setSelectedElementIds,
     setCurrentTime,
     addMediaElement,
     addTextElement,
     addAudioElement,
-    removeElement,
-    updateElementPosition,
+    removeElements,
+    duplicateElements,
+    pasteElements,
+    updateElementPositions,
     updateElementDimensions,
     updateElementTimeRange,
+    trimEdit,
+    moveElement,
+    addTrack,
+    removeTrack,
+    moveTrack,
+    renameTrack,
+    setTrackHeight,
+    toggleTrack,
+    addMarker,
+    updateMarker,
+    removeMarker,
     updateElementSpeed,
+    setElementPreservePitch,
     updateElementVolume,
     toggleElementMute,
     cropElement,
     mergeVideoElements,
+    freezeFrame,
+    reverseElements,
+    createCompoundElement,
+    openCompound,
+    closeCompound,
+    splitElements,
+    editRange,
+    closeGaps,
     togglePlayback,
     setIsPlaying,
     undo,
     redo,
+    loadElements,
     restartTimeline,
     canUndo,
     canRedo,
+    undoLabel,
+    redoLabel,
+    historyEntries,
+    historyIndex,
+    historyBranch,
+    historyLimit,
+    jumpToHistory,
+    setHistoryLimit,
   } = useTimeline();
   
   const {
@@ -73,14 +155,149 @@ const Index = () => {
     projectName,
     canvasWidth,
     canvasHeight,
-    isSaved,
+    savedSignature,
+    isExporting,
+    exportProgress,
     setActiveTool,
     setProjectName,
     exportProject,
+    exportFrame,
+    cancelExport,
+    exportChapters,
+    copyChapters,
     openSettings,
     shareProject,
+    buildProjectFile,
     saveProject,
-  } = useEditor();
+    loadProject,
+  } = useEditor(projectId);
+
+  // Set once the saved project (if any) has been opened
+  const [isProjectReady, setIsProjectReady] = useState(!projectId);
+  const [recovery, setRecovery] = useState<{ saved: ProjectFile | null; autosave: ProjectFile } | null>(null);
+
+  const openProject = useCallback(async (project: ProjectFile, saved: ProjectFile | null) => {
+    try {
+      const { project: restored, missing } = await restoreProjectMedia(project);
+      loadProject(restored, saved);
+      loadElements(restored.elements, restored.tracks, restored.markers);
+      restoreMedia(restored.mediaItems);
+      if (missing.length > 0) {
+        toast.warning(`Missing media: ${missing.join(", ")}`);
+      }
+    } catch (error) {
+      console.error("Failed to open project media:", error);
+      toast.error("Failed to open project media");
+    }
+    setIsProjectReady(true);
+  }, [loadProject, loadElements, restoreMedia]);
+
+  // Restore a saved project when one is opened, offering to recover
+  // newer unsaved work from its autosave snapshot
+  useEffect(() => {
+    if (!projectId) return;
+
+    try {
+      const saved = readProject(projectId);
+      const autosave = readAutosave(projectId);
+      if (autosave && (!saved || autosave.savedAt > saved.savedAt)) {
+        setRecovery({ saved, autosave });
+      } else if (saved) {
+        openProject(saved, saved);
+      } else {
+        setIsProjectReady(true); // A new, unsaved project
+      }
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to open project");
+      navigate("/projects");
+    }
+  }, [projectId, openProject, navigate]);
+
+  const handleRestoreAutosave = () => {
+    if (!recovery) return;
+    setRecovery(null);
+    openProject(recovery.autosave, recovery.saved);
+  };
+
+  const handleDiscardAutosave = () => {
+    if (!recovery) return;
+    setRecovery(null);
+    clearAutosave(recovery.autosave.id);
+    if (recovery.saved) {
+      openProject(recovery.saved, recovery.saved);
+    } else {
+      setIsProjectReady(true);
+    }
+  };
+
+  // While a clip is dragged the timeline shows where everything would end up
+  const timelineElements = useMemo(() => {
+    const operations = clipMove && planSelectionMove(elements, tracks, selectedElementIds, clipMove, collisionMode);
+    if (!operations) return elements;
+    const state = { elements, tracks, markers };
+    return applyOperations(state, withMagneticTracks(state, operations)).elements;
+  }, [elements, tracks, markers, selectedElementIds, clipMove, collisionMode]);
+
+  const allMediaItems = useMemo(() => [...mediaItems, ...audioItems], [mediaItems, audioItems]);
+  const currentProject = useMemo(
+    () => (isProjectReady ? buildProjectFile(projectElements, projectTracks, projectMarkers, allMediaItems) : null),
+    [isProjectReady, buildProjectFile, projectElements, projectTracks, projectMarkers, allMediaItems]
+  );
+  const { isSaved } = useAutosave(currentProject, savedSignature);
+
+  useKeyboardShortcuts([
+    { key: "z", mod: true, handler: undo },
+    { key: "z", mod: true, shift: true, handler: redo },
+    { key: "y", mod: true, handler: redo },
+    { key: "s", handler: () => handleSplit() },
+    { key: "s", shift: true, handler: () => splitElements() },
+    { key: "v", handler: () => setTrimMode("trim") },
+    { key: "b", handler: () => setTrimMode("ripple") },
+    { key: "n", handler: () => setTrimMode("roll") },
+    { key: "y", handler: () => setTrimMode("slip") },
+    { key: "u", handler: () => setTrimMode("slide") },
+    { key: "m", handler: () => handleAddMarker() },
+    { key: "[", handler: () => jumpToMarker(-1) },
+    { key: "]", handler: () => jumpToMarker(1) },
+    { key: "Delete", handler: () => handleDeleteElement() },
+    { key: "Backspace", handler: () => handleDeleteElement() },
+    { key: "d", mod: true, handler: () => duplicateElements(selectedElementIds) },
+    { key: "a", mod: true, handler: () => setSelectedElementIds(elements.map(el => el.id)) },
+    { key: "g", mod: true, handler: () => createCompoundElement(selectedElementIds, canvasWidth, canvasHeight) },
+    { key: "f", handler: () => handleFreezeFrame() },
+    { key: "r", handler: () => reverseElements(selectedElementIds) },
+  ]);
+
+  // Copy the selected elements as clipboard text
+  const copySelection = () =>
+    selectedElementIds.length > 0
+      ? serializeClipboard(elements.filter(el => selectedElementIds.includes(el.id)), allMediaItems)
+      : null;
+
+  useClipboardEvents({
+    onCopy: copySelection,
+    onCut: () => {
+      const text = copySelection();
+      if (text !== null) removeElements(selectedElementIds);
+      return text;
+    },
+    onPaste: (text) => {
+      const content = parseClipboard(text);
+      if (!content) return false;
+      handlePaste(content);
+      return true;
+    },
+  });
+
+  const { exportBundle, importBundle } = useProjectBundle();
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const handleBundleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importBundle(file);
+    e.target.value = "";
+  };
 
   // Handle file uploads
   const handleMediaUpload = async (files: File[]) => {
@@ -119,7 +336,7 @@ const Index = () => {
   };
 
   // Handle media library item click
-  const handleMediaItemClick = (item: any) => {
+  const handleMediaItemClick = (item: MediaItem) => {
     if (activeTool === "merge") {
       // In merge mode, select videos for merging
       if (item.type !== "video") {
@@ -133,9 +350,10 @@ const Index = () => {
       );
       
       if (!elementInTimeline) {
-        // Add to timeline first
+        // Add to timeline first. The new clip isn't in `elements` until the
+        // next render, but it's known to be a video.
         const elementId = addMediaElement(item);
-        handleSelectForMerge(elementId);
+        setSelectedVideosForMerge(prev => [...prev, elementId]);
       } else {
         // Select existing element
         handleSelectForMerge(elementInTimeline.id);
@@ -154,40 +372,131 @@ const Index = () => {
       return;
     }
     
-    setSelectedVideosForMerge(prev => {
-      if (prev.includes(elementId)) {
-        return prev.filter(id => id !== elementId);
-      } else {
-        if (prev.length >= 2) {
-          toast.info("You can only select two videos to merge at once");
-          return [prev[1], elementId]; // Keep the second and add the new one
-        }
-        return [...prev, elementId];
-      }
-    });
+    setSelectedVideosForMerge(prev =>
+      prev.includes(elementId) ? prev.filter(id => id !== elementId) : [...prev, elementId]
+    );
   };
 
-  // Handle merging videos
-  const handleMergeVideos = () => {
-    if (selectedVideosForMerge.length !== 2) {
-      toast.error("Please select exactly two videos to merge");
+  // Add the videos selected on the timeline or canvas to the merge
+  const handleAddSelectionToMerge = () => {
+    const videos = elements.filter(el => el.type === "video" && selectedElementIds.includes(el.id));
+    if (videos.length === 0) {
+      toast.error("Select videos on the timeline first");
       return;
     }
-    
-    mergeVideoElements(selectedVideosForMerge[0], selectedVideosForMerge[1]);
-    setSelectedVideosForMerge([]);
-    setActiveTool("select");
+    setSelectedVideosForMerge(prev => [...prev, ...videos.map(el => el.id).filter(id => !prev.includes(id))]);
+  };
+
+  // Render the videos end to end into a new media file that replaces them
+  const handleMergeVideos = async () => {
+    const videos = getMergeOrder(elements.filter(el => selectedVideosForMerge.includes(el.id)));
+    const mergeError = getMergeError(videos);
+    if (mergeError) {
+      toast.error(mergeError);
+      return;
+    }
+    if (videos.some(el => isTrackLocked(tracks, el.track))) {
+      toast.error("Can't merge clips on a locked track");
+      return;
+    }
+
+    setMergeProgress(0);
+    try {
+      const blob = await renderMergedVideo(videos, { fps: mergeFps, onProgress: setMergeProgress });
+      const file = new File([blob], `Merged ${videos.length} clips.webm`, { type: blob.type });
+      const [item] = await addMedia([file]);
+      if (!item) return;
+
+      mergeVideoElements(videos.map(el => el.id), item);
+      setSelectedVideosForMerge([]);
+      setActiveTool("select");
+    } catch (error) {
+      console.error("Failed to merge videos:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to merge videos");
+    } finally {
+      setMergeProgress(null);
+    }
   };
 
+  const canMerge = selectedVideosForMerge.length >= 2 && mergeProgress === null;
+
   // Handle adding text
-  const handleAddText = (textProps: any) => {
+  const handleAddText = (textProps: TextContent) => {
     addTextElement(textProps);
   };
 
-  // Handle deleting selected element
+  // Split the selected clips, or every clip when nothing is selected
+  const handleSplit = () => {
+    splitElements(selectedElementIds.length > 0 ? selectedElementIds : undefined);
+  };
+
+  // Capture the frame of the selected video, or the top video under the
+  // playhead, into the media library and insert it as a still there
+  const handleFreezeFrame = async () => {
+    const time = currentTime;
+    const isVideoAtTime = (el: TimelineElement): el is VideoElement =>
+      el.type === "video" && time >= el.start && time < el.end;
+    const selected = elements.find(el => el.id === selectedElementId);
+    const video = selected && isVideoAtTime(selected)
+      ? selected
+      : getVisibleElements(elements, time, tracks).filter(isVideoAtTime).pop();
+    if (!video) {
+      toast.error("Move the playhead over a video clip to freeze a frame");
+      return;
+    }
+    if (isTrackLocked(tracks, video.track)) {
+      toast.error("Can't freeze a frame on a locked track");
+      return;
+    }
+
+    try {
+      const blob = await captureVideoFrame(video, time);
+      const name = `${video.name.replace(/\.[^.]+$/, "")} frame.png`;
+      const [item] = await addMedia([new File([blob], name, { type: blob.type })]);
+      if (!item) return;
+      freezeFrame(video.id, time, item, freezeFrameLength);
+    } catch (error) {
+      console.error("Failed to freeze frame:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to freeze frame");
+    }
+  };
+
+  // Paste copied elements at the playhead, adding their media to the library
+  const handlePaste = async (content: ClipboardContent) => {
+    try {
+      const { elements: pasted, mediaItems: pastedMedia, missing } = await restoreClipboardMedia(content);
+      addMediaItems(pastedMedia);
+      pasteElements(pasted);
+      if (missing.length > 0) {
+        toast.warning(`Missing media: ${missing.join(", ")}`);
+      }
+    } catch (error) {
+      console.error("Failed to paste:", error);
+      toast.error("Failed to paste");
+    }
+  };
+
+  const handleAddMarker = () => {
+    setSelectedMarkerId(addMarker());
+  };
+
+  // Move the playhead to a marker
+  const selectMarker = (id: string) => {
+    const marker = markers.find(m => m.id === id);
+    if (!marker) return;
+    setCurrentTime(marker.time);
+    setSelectedMarkerId(id);
+  };
+
+  const jumpToMarker = (direction: 1 | -1) => {
+    const marker = findAdjacentMarker(markers, currentTime, direction);
+    if (marker) selectMarker(marker.id);
+  };
+
+  // Handle deleting the selected elements
   const handleDeleteElement = () => {
-    if (selectedElementId) {
-      removeElement(selectedElementId);
+    if (selectedElementIds.length > 0) {
+      removeElements(selectedElementIds);
     }
   };
 
@@ -231,6 +540,10 @@ const Index = () => {
       lastTime = currentTime;
       
       setCurrentTime((time) => {
+        // Jump back to the start of the loop range when playback reaches its end
+        if (loopRange && time < loopRange[1] && time + delta >= loopRange[1]) {
+          return loopRange[0];
+        }
         // Stop at the end of the timeline
         if (time + delta >= duration) {
           setIsPlaying(false);
@@ -247,38 +560,50 @@ const Index = () => {
     return () => {
       cancelAnimationFrame(animationFrame);
     };
-  }, [isPlaying, duration, setCurrentTime, setIsPlaying]);
+  }, [isPlaying, duration, loopRange, setCurrentTime, setIsPlaying]);
+
+  // Extract and crop move content, so a loop range would no longer fit it
+  const handleRangeEdit = (edit: RangeEdit, start: number, end: number) => {
+    editRange(edit, start, end);
+    if (edit !== "lift") setLoopRange(null);
+  };
+
+  // Start looping playback of a range, or stop with null
+  const handleLoopRangeChange = (range: [number, number] | null) => {
+    setLoopRange(range);
+    if (range) {
+      setCurrentTime(range[0]);
+      setIsPlaying(true);
+    }
+  };
+
+  // Loop ranges are in the time of the sequence being edited, so they end
+  // when a compound clip is opened or closed
+  const handleOpenCompound = (id: string) => {
+    setLoopRange(null);
+    openCompound(id);
+  };
+
+  const handleCloseCompound = (depth: number) => {
+    setLoopRange(null);
+    closeCompound(depth);
+  };
 
   // Handle export
   const handleExport = () => {
-    setIsExporting(true);
-    
-    // Use the browser's download dialog via anchor element
-    const handleSaveAs = () => {
-      const downloadLink = document.createElement('a');
-      downloadLink.style.display = 'none';
-      
-      // Create a fake file for demonstration
-      // In a real app, this would be a real video file from the server
-      const dummy = new Blob(['Example video data'], { type: 'video/mp4' });
-      const url = URL.createObjectURL(dummy);
-      
-      // This will open the browser's "Save As" dialog
-      downloadLink.href = url;
-      downloadLink.download = `${projectName.replace(/\s+/g, '-')}.mp4`;
-      
-      document.body.appendChild(downloadLink);
-      downloadLink.click();
-      document.body.removeChild(downloadLink);
-      
-      setTimeout(() => {
-        URL.revokeObjectURL(url);
-        setIsExporting(false);
-        toast.success("Project exported successfully");
-      }, 1500);
-    };
-    
-    handleSaveAs();
+    if (projectElements.length === 0) {
+      toast.error("Add something to the timeline before exporting");
+      return;
+    }
+    setIsPlaying(false);
+    setIsExportDialogOpen(true);
+  };
+
+  const handleStartExport = async (options: { format: ExportFormat; scale: number; fps: number }) => {
+    const exported = await exportProject(projectElements, projectTracks, options);
+    if (exported) {
+      setIsExportDialogOpen(false);
+    }
   };
 
   // Sidebar navigation items
@@ -289,6 +614,8 @@ const Index = () => {
     { id: "media", label: "Media", icon: ImageIcon },
     { id: "audio", label: "Audio", icon: AudioLines },
     { id: "crop", label: "Crop", icon: Crop },
+    { id: "history", label: "History", icon: History },
+    { id: "markers", label: "Markers", icon: Bookmark },
     { id: "uploads", label: "Uploads", icon: Upload },
     { id: "tools", label: "Tools", icon: ImageIcon },
   ];
@@ -312,7 +639,7 @@ const Index = () => {
                   {mediaItems.map((item) => (
                     <div
                       key={item.id}
-                      className={`media-item ${selectedVideosForMerge.includes(elements.find(el => el.content.src === item.url)?.id || '') ? 'ring-2 ring-editor-accent' : ''}`}
+                      className={`media-item ${selectedVideosForMerge.includes(elements.find(el => isMediaElement(el) && el.content.src === item.url)?.id || '') ? 'ring-2 ring-editor-accent' : ''}`}
                       onClick={() => handleMediaItemClick(item)}
                     >
                       <img
@@ -384,6 +711,10 @@ const Index = () => {
           <SpeedControl 
             selectedElementId={selectedElementId}
             onSpeedChange={updateElementSpeed}
+            onPreservePitchChange={setElementPreservePitch}
+            freezeFrameLength={freezeFrameLength}
+            onFreezeFrameLengthChange={setFreezeFrameLength}
+            onFreezeFrame={handleFreezeFrame}
             elements={elements}
           />
         );
@@ -397,57 +728,104 @@ const Index = () => {
           />
         );
         
+      case "history":
+        return (
+          <HistoryPanel
+            entries={historyEntries}
+            index={historyIndex}
+            branch={historyBranch}
+            limit={historyLimit}
+            onJump={jumpToHistory}
+            onLimitChange={setHistoryLimit}
+          />
+        );
+        
+      case "markers":
+        return (
+          <MarkersPanel
+            markers={markers}
+            selectedMarkerId={selectedMarkerId}
+            onSelect={selectMarker}
+            onAdd={handleAddMarker}
+            onJump={jumpToMarker}
+            onUpdate={updateMarker}
+            onRemove={removeMarker}
+            onCopyChapters={() => copyChapters(markers, duration)}
+            onExportChapters={(format) => exportChapters(markers, duration, format)}
+          />
+        );
+
       case "merge":
         return (
           <Panel title="Merge Videos" className="flex-1 m-4">
             <div className="space-y-4">
               <p className="text-sm text-editor-muted">
-                Select two videos from your timeline or media library to merge them together.
+                Select videos that follow each other on one track to join them, in timeline order, into a new
+                WebM video. Trims, speeds, crops and volumes are kept.
               </p>
+
+              <div>
+                <div className="text-sm font-medium mb-2">Frame rate</div>
+                <div className="flex gap-2">
+                  {MERGE_FPS_OPTIONS.map((option) => (
+                    <button
+                      key={option}
+                      className={`text-xs px-3 py-1.5 rounded ${mergeFps === option
+                        ? "bg-editor-accent text-white"
+                        : "bg-gray-100 hover:bg-gray-200"}`}
+                      onClick={() => setMergeFps(option)}
+                      disabled={mergeProgress !== null}
+                    >
+                      {option} fps
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <Button variant="outline" size="sm" className="w-full" onClick={handleAddSelectionToMerge}>
+                Add Selected Clips
+              </Button>
               
               <div className="bg-editor-border/30 p-3 rounded-md">
-                <h4 className="text-sm font-medium mb-2">Selected Videos ({selectedVideosForMerge.length}/2)</h4>
+                <h4 className="text-sm font-medium mb-2">Selected Videos ({selectedVideosForMerge.length})</h4>
                 {selectedVideosForMerge.length === 0 ? (
                   <p className="text-xs text-editor-muted">No videos selected</p>
                 ) : (
                   <div className="space-y-2">
-                    {selectedVideosForMerge.map((id, index) => {
-                      const element = elements.find(el => el.id === id);
-                      return element ? (
-                        <div key={id} className="flex items-center gap-2 bg-white p-2 rounded-md">
-                          <div className="w-10 h-10 bg-editor-border/50 rounded overflow-hidden">
-                            {element.thumbnail && (
-                              <img src={element.thumbnail} alt="" className="w-full h-full object-cover" />
-                            )}
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="text-xs font-medium truncate">{element.name}</p>
-                          </div>
-                          <button 
-                            className="text-red-500 hover:text-red-600"
-                            onClick={() => setSelectedVideosForMerge(prev => prev.filter(i => i !== id))}
-                          >
-                            <Trash size={16} />
-                          </button>
+                    {getMergeOrder(elements.filter(el => selectedVideosForMerge.includes(el.id))).map((element) => (
+                      <div key={element.id} className="flex items-center gap-2 bg-white p-2 rounded-md">
+                        <div className="w-10 h-10 bg-editor-border/50 rounded overflow-hidden">
+                          {element.thumbnail && (
+                            <img src={element.thumbnail} alt="" className="w-full h-full object-cover" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-medium truncate">{element.name}</p>
                         </div>
-                      ) : null;
-                    })}
+                        <button 
+                          className="text-red-500 hover:text-red-600"
+                          onClick={() => setSelectedVideosForMerge(prev => prev.filter(i => i !== element.id))}
+                        >
+                          <Trash size={16} />
+                        </button>
+                      </div>
+                    ))}
                   </div>
                 )}
               </div>
               
               <button
                 className={`w-full py-2 rounded-md text-white font-medium ${
-                  selectedVideosForMerge.length === 2 
+                  canMerge
                     ? 'bg-editor-accent hover:bg-editor-accent/90' 
                     : 'bg-editor-border/50 cursor-not-allowed'
                 }`}
-                disabled={selectedVideosForMerge.length !== 2}
+                disabled={!canMerge}
                 onClick={handleMergeVideos}
               >
                 <div className="flex items-center justify-center gap-2">
                   <Merge size={16} />
-                  Merge Videos
+                  {mergeProgress !== null ? `Merging... ${Math.round(mergeProgress * 100)}%` : "Merge Videos"}
                 </div>
               </button>
             </div>
@@ -485,30 +863,78 @@ const Index = () => {
     );
   };
 
-  // Filter for canvas elements
-  const canvasElements = elements.filter(el => el.type !== "audio").map(el => ({
-    id: el.id,
-    type: el.type,
-    x: el.x,
-    y: el.y,
-    width: el.width,
-    height: el.height,
-    rotation: el.rotation,
-    content: el.content,
-    start: el.start,
-    end: el.end
-  }));
-
   return (
     <div className="flex flex-col h-screen bg-editor-background">
       <Header
         onExport={handleExport}
         onShare={shareProject}
         onSettings={openSettings}
+        onSave={() => saveProject(projectElements, projectTracks, projectMarkers, allMediaItems)}
+        onNewProject={() => navigate(`/editor/${uuidv4()}`)}
+        onOpenProjects={() => navigate("/projects")}
+        onImportBundle={() => bundleInputRef.current?.click()}
+        onExportBundle={() => exportBundle(buildProjectFile(projectElements, projectTracks, projectMarkers, allMediaItems))}
+        onUndo={undo}
+        onRedo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
         projectName={projectName}
         setProjectName={setProjectName}
         isSaved={isSaved}
         currentTime={currentTime}
+        isExporting={isExporting}
+      />
+
+      <Toolbar
+        activeTool={activeTool}
+        setActiveTool={setActiveTool}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        onUndo={undo}
+        onRedo={redo}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onPreview={() => {
+          setActiveTool("select");
+          setActivePanel(null);
+        }}
+        canMergeVideos={canMerge}
+        onMergeVideos={handleMergeVideos}
+        onSplit={handleSplit}
+        onSplitAll={() => splitElements()}
+        onFreezeFrame={handleFreezeFrame}
+        onReverse={() => reverseElements(selectedElementIds)}
+      />
+
+      <input
+        ref={bundleInputRef}
+        type="file"
+        accept={BUNDLE_EXTENSION}
+        className="hidden"
+        onChange={handleBundleSelect}
+      />
+
+      <RecoveryDialog
+        open={!!recovery}
+        projectName={recovery?.autosave.name ?? ""}
+        autosavedAt={recovery?.autosave.savedAt ?? new Date().toISOString()}
+        hasSavedVersion={!!recovery?.saved}
+        onRestore={handleRestoreAutosave}
+        onDiscard={handleDiscardAutosave}
+      />
+
+      <ExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        canvasWidth={canvasWidth}
+        canvasHeight={canvasHeight}
+        isExporting={isExporting}
+        progress={exportProgress}
+        onExport={handleStartExport}
+        onExportFrame={(scale) => exportFrame(elements, tracks, currentTime, scale)}
+        onCancel={cancelExport}
       />
       
       <div className="flex-1 flex overflow-hidden">
@@ -545,12 +971,16 @@ const Index = () => {
                 <Canvas
                   width={canvasWidth}
                   height={canvasHeight}
-                  elements={canvasElements}
+                  elements={elements}
+                  tracks={tracks}
                   selectedElementId={selectedElementId}
+                  selectedElementIds={selectedElementIds}
                   onElementSelect={setSelectedElementId}
-                  onElementMove={updateElementPosition}
+                  onSelectionChange={setSelectedElementIds}
+                  onElementsMove={updateElementPositions}
                   onElementResize={updateElementDimensions}
                   currentTime={currentTime}
+                  isPlaying={isPlaying}
                 />
               </div>
             ) : (
@@ -564,6 +994,9 @@ const Index = () => {
                   onTimeUpdate={setCurrentTime}
                   onRestart={restartTimeline}
                   elements={elements}
+                  tracks={tracks}
+                  width={canvasWidth}
+                  height={canvasHeight}
                 />
               </div>
             )}
@@ -571,10 +1004,11 @@ const Index = () => {
           
           <div className="bg-white border-t border-editor-border">
             <Timeline
-              clips={elements.map((el) => ({
+              tracks={tracks}
+              clips={timelineElements.map((el) => ({
                 id: el.id,
                 type: el.type,
-                name: el.type === "text" ? el.content.content : el.name,
+                name: el.type === "text" ? el.content.text : el.name,
                 thumbnail: el.thumbnail,
                 start: el.start,
                 end: el.end,
@@ -587,9 +1021,44 @@ const Index = () => {
               onPlayPause={togglePlayback}
               onClipSelect={setSelectedElementId}
               selectedClipId={selectedElementId}
+              selectedClipIds={selectedElementIds}
+              onSelectionChange={setSelectedElementIds}
               zoom={timelineZoom}
               onZoomChange={setTimelineZoom}
               onTrimClip={updateElementTimeRange}
+              onRangeEdit={handleRangeEdit}
+              onCloseGaps={closeGaps}
+              loopRange={loopRange}
+              onLoopRangeChange={handleLoopRangeChange}
+              trimMode={trimMode}
+              onTrimModeChange={setTrimMode}
+              onTrimEdit={trimEdit}
+              collisionMode={collisionMode}
+              onCollisionModeChange={setCollisionMode}
+              onMoveClipPreview={setClipMove}
+              onMoveClip={(move) => moveElement(move, collisionMode)}
+              snapping={snapping}
+              onSnappingChange={setSnapping}
+              onSplit={handleSplit}
+              onFreezeFrame={handleFreezeFrame}
+              onReverse={() => reverseElements(selectedElementIds)}
+              markers={markers}
+              selectedMarkerId={selectedMarkerId}
+              onMarkerSelect={(id) => {
+                selectMarker(id);
+                setActivePanel("markers");
+              }}
+              onAddMarker={handleAddMarker}
+              onAddTrack={addTrack}
+              onRemoveTrack={removeTrack}
+              onMoveTrack={moveTrack}
+              onRenameTrack={renameTrack}
+              onTrackHeightChange={setTrackHeight}
+              onToggleTrack={toggleTrack}
+              onMakeCompound={() => createCompoundElement(selectedElementIds, canvasWidth, canvasHeight)}
+              onOpenClip={handleOpenCompound}
+              openCompounds={openCompounds}
+              onCloseCompound={handleCloseCompound}
             />
           </div>
         </div>
@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Copy, Download, FolderOpen, Pencil, Plus, Trash, Upload, Video } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import { toast } from "sonner";
+
+import { Button } from "@/components/UI/button";
+import { Input } from "@/components/UI/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/UI/alert-dialog";
+import IconButton from "@/components/UI/IconButton";
+import {
+  ProjectSummary,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  readProject,
+  renameProject,
+} from "@/lib/projectStorage";
+import { BUNDLE_EXTENSION } from "@/lib/projectBundle";
+import useProjectBundle from "@/hooks/useProjectBundle";
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+};
+
+const Projects = () => {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deletingProject, setDeletingProject] = useState<ProjectSummary | null>(null);
+  const { isBusy, exportBundle, importBundle } = useProjectBundle();
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => {
+    setProjects(listProjects());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleStartRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleRename = () => {
+    if (!renamingId) return;
+    const name = renameValue.trim();
+    if (!name) {
+      toast.error("Project name can't be empty");
+      return;
+    }
+
+    try {
+      renameProject(renamingId, name);
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rename project");
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = (project: ProjectSummary) => {
+    try {
+      duplicateProject(project.id);
+      refresh();
+      toast.success(`Duplicated "${project.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to duplicate project");
+    }
+  };
+
+  const handleExportBundle = (project: ProjectSummary) => {
+    try {
+      const saved = readProject(project.id);
+      if (saved) exportBundle(saved);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read project");
+    }
+  };
+
+  const handleBundleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importBundle(file);
+    e.target.value = "";
+  };
+
+  const handleDelete = async () => {
+    if (!deletingProject) return;
+    setDeletingProject(null);
+    try {
+      await deleteProject(deletingProject.id);
+      toast.success("Project deleted");
+    } catch (error) {
+      console.error("Failed to clean up project media:", error);
+      toast.error("Project deleted, but its media couldn't be removed");
+    }
+    refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-editor-background">
+      <header className="h-14 flex items-center justify-between px-6 bg-gradient-to-r from-sky-400 to-blue-500 text-white">
+        <h1 className="font-medium">Your Projects</h1>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            className="text-white border-white/20 bg-white/10 hover:bg-white/20 flex items-center gap-1 h-9"
+            onClick={() => bundleInputRef.current?.click()}
+            disabled={isBusy}
+          >
+            <Upload size={16} />
+            Import
+          </Button>
+          <input
+            ref={bundleInputRef}
+            type="file"
+            accept={BUNDLE_EXTENSION}
+            className="hidden"
+            onChange={handleBundleSelect}
+          />
+          <Button
+            variant="outline"
+            className="text-white border-white/20 bg-white/10 hover:bg-white/20 flex items-center gap-1 h-9"
+            onClick={() => navigate(`/editor/${uuidv4()}`)}
+          >
+            <Plus size={16} />
+            New Project
+          </Button>
+        </div>
+      </header>
+
+      <main className="p-6">
+        {projects.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-editor-muted">
+            <Video className="mb-2 opacity-50" />
+            <p className="text-sm">No saved projects yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {projects.map((project) => (
+              <div key={project.id} className="panel overflow-hidden flex flex-col">
+                <button
+                  className="aspect-video bg-black flex items-center justify-center"
+                  onClick={() => !project.error && navigate(`/editor/${project.id}`)}
+                  disabled={!!project.error}
+                >
+                  {project.error ? (
+                    <AlertTriangle className="text-yellow-300" />
+                  ) : project.thumbnail ? (
+                    <img src={project.thumbnail} alt={project.name} className="w-full h-full object-contain" />
+                  ) : (
+                    <Video className="text-white/50" />
+                  )}
+                </button>
+
+                <div className="p-3 flex flex-col gap-1 flex-1">
+                  {renamingId === project.id ? (
+                    <Input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={handleRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename();
+                        if (e.key === "Escape") setRenamingId(null);
+                      }}
+                      className="h-8"
+                    />
+                  ) : (
+                    <p className="text-sm font-medium truncate">{project.name}</p>
+                  )}
+
+                  {project.error ? (
+                    <p className="text-xs text-red-500 whitespace-pre-line">{project.error}</p>
+                  ) : (
+                    <p className="text-xs text-editor-muted">
+                      {formatDuration(project.duration)} · {project.aspectRatio} · saved{" "}
+                      {formatDistanceToNow(new Date(project.savedAt), { addSuffix: true })}
+                    </p>
+                  )}
+
+                  <div className="flex items-center gap-1 mt-auto pt-2">
+                    <IconButton
+                      icon={FolderOpen}
+                      tooltip="Open"
+                      disabled={!!project.error}
+                      onClick={() => navigate(`/editor/${project.id}`)}
+                    />
+                    <IconButton
+                      icon={Pencil}
+                      tooltip="Rename"
+                      disabled={!!project.error}
+                      onClick={() => handleStartRename(project)}
+                    />
+                    <IconButton
+                      icon={Copy}
+                      tooltip="Duplicate"
+                      disabled={!!project.error}
+                      onClick={() => handleDuplicate(project)}
+                    />
+                    <IconButton
+                      icon={Download}
+                      tooltip="Export bundle"
+                      disabled={!!project.error || isBusy}
+                      onClick={() => handleExportBundle(project)}
+                    />
+                    <IconButton
+                      icon={Trash}
+                      tooltip="Delete"
+                      className="ml-auto text-red-500"
+                      onClick={() => setDeletingProject(project)}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={!!deletingProject} onOpenChange={(open) => !open && setDeletingProject(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingProject?.name}" will be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Projects;
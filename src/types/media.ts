@@ -0,0 +1,12 @@
+export type MediaType = "image" | "video" | "audio";
+
+export interface MediaItem {
+  // Also the key of the file in the media store
+  id: string;
+  name: string;
+  type: MediaType;
+  // Object URL for the current session
+  url: string;
+  thumbnail: string;
+  duration?: number;
+}
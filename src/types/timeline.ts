@@ -1,43 +1,197 @@
-
 export type ToolType = "select" | "text" | "media" | "audio" | "transition" | "crop" | "speed" | "merge" | "trim" | "effects" | "volume";
 
-export interface TimelineElement {
-  id: string;
-  type: "video" | "image" | "text" | "audio";
-  name: string;
+// How dragging a clip edge or body on the timeline edits it:
+// - trim: move one edge of the clip
+// - ripple: move one edge and shift the later clips on the track to match
+// - roll: move the cut between the clip and the clip touching that edge
+// - slip: change which part of the media plays without moving the clip
+// - slide: move the clip, lengthening and shortening the clips on either side
+export type TrimMode = "trim" | "ripple" | "roll" | "slip" | "slide";
+
+export type TrimSide = "start" | "end";
+
+// A trim drag, as a time offset from where the drag started
+export interface TrimEdit {
+  mode: TrimMode;
+  clipId: string;
+  // The dragged edge; slip and slide drag the whole clip
+  side?: TrimSide;
+  delta: number;
+}
+
+// What happens to clips a dragged clip lands on:
+// - block: the dragged clip stops against them
+// - overwrite: they're trimmed, split or removed to make room
+// - insert: they're pushed later by the dragged clip's length
+export type CollisionMode = "block" | "overwrite" | "insert";
+
+// Where a clip is being dragged to
+export interface ClipMove {
+  clipId: string;
   start: number;
-  end: number;
   track: number;
-  thumbnail?: string;
-  content: {
-    src: string;
-    volume?: number;
-    muted?: boolean;
-    crop?: {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-    };
-    [key: string]: any;
-  };
+}
+
+export type ElementType = "video" | "image" | "text" | "audio" | "compound";
+
+// Visual tracks hold video, image and text clips; audio tracks hold audio clips
+export type TrackKind = "visual" | "audio";
+
+// A timeline track. Elements refer to tracks by their index in the track
+// list; the first track is the top row and is drawn in front of the rest.
+export interface Track {
+  id: string;
+  name: string;
+  kind: TrackKind;
+  // Row height on the timeline, in pixels
+  height: number;
+  // Clips on a locked track can't be edited
+  locked: boolean;
+  // A hidden track's clips aren't drawn but can still be heard
+  hidden: boolean;
+  muted: boolean;
+  // While any track is soloed only soloed tracks are heard
+  solo: boolean;
+  // Clips on a magnetic track always sit end to end from the start; edits
+  // and insertions push the later clips along
+  magnetic: boolean;
+}
+
+export type TrackToggle = "locked" | "hidden" | "muted" | "solo" | "magnetic";
+
+// A named point on the timeline ruler; markers double as chapter starts
+export interface Marker {
+  id: string;
+  // Timeline seconds
+  time: number;
+  name: string;
+  // CSS color of the flag
+  color: string;
+  notes: string;
+}
+
+// Crop rectangle in percent of the source media
+export interface CropRect {
   x: number;
   y: number;
   width: number;
   height: number;
-  rotation: number;
-  speed?: number;
 }
 
-export interface CanvasElement {
+export type TextAlignment = "left" | "center" | "right";
+
+// A point on a speed ramp: the speed multiplier at `position`, which runs
+// from 0 at the start of the clip to 1 at its end
+export interface SpeedKeyframe {
+  position: number;
+  speed: number;
+}
+
+// The part of a media file an element plays, in source seconds. The element
+// lasts (sourceOut - sourceIn) / |speed| on the timeline and plays the range
+// backwards when its speed is negative (see src/lib/timeMapping.ts).
+export interface SourceRange {
+  sourceIn: number;
+  sourceOut: number;
+  // Length of the whole media file; sourceOut never goes past it
+  originalDuration: number;
+}
+
+// Media content points at a stored file by `mediaId` (see src/lib/mediaStore.ts);
+// `src` is its object URL for the current session.
+export interface VideoContent extends SourceRange {
+  mediaId: string;
+  src: string;
+  volume: number;
+  muted: boolean;
+  // Keep the sound's pitch when the speed isn't 1
+  preservePitch: boolean;
+  // Speed over the clip, multiplying the element's speed (see src/lib/speedRamp.ts)
+  speedRamp?: SpeedKeyframe[];
+  crop?: CropRect;
+}
+
+export interface ImageContent {
+  mediaId: string;
+  src: string;
+  crop?: CropRect;
+}
+
+export interface AudioContent extends SourceRange {
+  mediaId: string;
+  src: string;
+  volume: number;
+  muted: boolean;
+  preservePitch: boolean;
+  speedRamp?: SpeedKeyframe[];
+}
+
+export interface TextContent {
+  text: string;
+  fontSize: number;
+  fontWeight: "normal" | "bold";
+  fontStyle: "normal" | "italic";
+  color: string;
+  alignment: TextAlignment;
+}
+
+// A nested sequence with its own elements and tracks. The source range is
+// in the nested sequence's time, like a video's is in its media's time.
+// Nested elements are laid out on a canvas of `width` x `height`, which is
+// scaled into the compound element's box.
+export interface CompoundContent extends SourceRange {
+  elements: TimelineElement[];
+  tracks: Track[];
+  width: number;
+  height: number;
+}
+
+// Fields shared by every element; `content` depends on the element type
+interface BaseElement<T extends ElementType, C> {
   id: string;
-  type: "video" | "image" | "text" | "audio";
+  type: T;
+  name: string;
+  start: number;
+  end: number;
+  track: number;
+  thumbnail?: string;
+  content: C;
   x: number;
   y: number;
   width: number;
   height: number;
   rotation: number;
-  content: any;
-  start: number;
-  end: number;
+  speed: number;
 }
+
+export type VideoElement = BaseElement<"video", VideoContent>;
+export type ImageElement = BaseElement<"image", ImageContent>;
+export type TextElement = BaseElement<"text", TextContent>;
+export type AudioElement = BaseElement<"audio", AudioContent>;
+export type CompoundElement = BaseElement<"compound", CompoundContent>;
+
+export type TimelineElement = VideoElement | ImageElement | TextElement | AudioElement | CompoundElement;
+
+// Elements whose content points at a media file
+export type MediaElement = VideoElement | ImageElement | AudioElement;
+
+// Elements that can be cropped
+export type CroppableElement = VideoElement | ImageElement;
+
+// Elements that produce sound
+export type AudibleElement = VideoElement | AudioElement;
+
+// Elements that play part of something longer, see SourceRange
+export type RangedElement = VideoElement | AudioElement | CompoundElement;
+
+export const isMediaElement = (element: TimelineElement): element is MediaElement =>
+  element.type === "video" || element.type === "image" || element.type === "audio";
+
+export const isCroppableElement = (element: TimelineElement): element is CroppableElement =>
+  element.type === "video" || element.type === "image";
+
+export const isAudibleElement = (element: TimelineElement): element is AudibleElement =>
+  element.type === "video" || element.type === "audio";
+
+export const isRangedElement = (element: TimelineElement): element is RangedElement =>
+  isAudibleElement(element) || element.type === "compound";